@@ -0,0 +1,265 @@
+import { AlertState, AlertStatus, Prisma, PrismaClient } from '@prisma/client';
+import { AlertRule, ResolvedSourceConfig } from '../config';
+import { SourceRegistry } from '../config/registry';
+import { Lease, LeaseManager } from '../db/leases';
+import { eventBus } from '../shared/eventBus';
+
+const STALE_CHECK_INTERVAL_MS = 30_000;
+const STALE_CHECK_LEASE_KEY = 'alerts:stale';
+
+type PayloadRule = Exclude<AlertRule, { type: 'stale' }>;
+type Payload = Record<string, unknown>;
+
+interface Evaluation {
+  firing: boolean;
+  value: unknown;
+  detail: string;
+}
+
+function toNumber(value: unknown) {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return Number.NaN;
+}
+
+function compare(op: Extract<AlertRule, { type: 'threshold' }>['op'], actual: unknown, expected: unknown) {
+  if (op === 'eq') return actual === expected;
+  if (op === 'neq') return actual !== expected;
+  const left = toNumber(actual);
+  const right = toNumber(expected);
+  if (Number.isNaN(left) || Number.isNaN(right)) return false;
+  switch (op) {
+    case 'gt':
+      return left > right;
+    case 'gte':
+      return left >= right;
+    case 'lt':
+      return left < right;
+    case 'lte':
+      return left <= right;
+  }
+}
+
+function evaluateRecord(rule: PayloadRule, record: Payload, previous: unknown): Evaluation {
+  const value = record[rule.field];
+  switch (rule.type) {
+    case 'threshold':
+      return {
+        firing: compare(rule.op, value, rule.value),
+        value,
+        detail: `${rule.field} ${rule.op} ${JSON.stringify(rule.value)} (value ${JSON.stringify(value)})`
+      };
+    case 'match': {
+      const matched = new RegExp(rule.pattern).test(value == null ? '' : String(value));
+      return {
+        firing: matched !== rule.negate,
+        value,
+        detail: `${rule.field} ${rule.negate ? 'does not match' : 'matches'} /${rule.pattern}/ (value ${JSON.stringify(value)})`
+      };
+    }
+    case 'change': {
+      const current = toNumber(value);
+      const before = toNumber(previous);
+      if (Number.isNaN(current) || Number.isNaN(before) || before === 0) {
+        return { firing: false, value, detail: `${rule.field} has no comparable previous value` };
+      }
+      const percent = ((current - before) / Math.abs(before)) * 100;
+      const moved = rule.direction === 'up' ? percent : rule.direction === 'down' ? -percent : Math.abs(percent);
+      return {
+        firing: moved >= rule.percent,
+        value,
+        detail: `${rule.field} changed ${percent.toFixed(2)}% (${before} -> ${current})`
+      };
+    }
+  }
+}
+
+function toJson(value: unknown) {
+  return value == null ? Prisma.DbNull : (JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue);
+}
+
+export function serializeAlert(state: AlertState) {
+  return {
+    sourceId: state.sourceId,
+    ruleId: state.ruleId,
+    status: state.status === AlertStatus.FIRING ? 'firing' : 'resolved',
+    severity: state.severity,
+    message: state.message,
+    value: state.value,
+    firedAt: state.firedAt,
+    resolvedAt: state.resolvedAt
+  };
+}
+
+// Keeps one AlertState row per configured rule and emits `alert:fired` / `alert:resolved` (and an
+// `alert` message on the source channel for WebSocket and SSE clients) only when a rule changes state.
+// Evaluations are serialized so a crawl and the stale check never race on the same row. Payload rules
+// are evaluated by the instance that ran the crawl; stale rules by one instance at a time.
+export class AlertEvaluator {
+  private timer: NodeJS.Timeout | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private startedAt = new Date();
+  private leases: LeaseManager;
+
+  constructor(
+    private prisma: PrismaClient,
+    private registry: SourceRegistry
+  ) {
+    this.leases = new LeaseManager(prisma);
+  }
+
+  async start() {
+    if (this.timer) return;
+    this.startedAt = new Date();
+    eventBus.on('crawl:finish', this.handleCrawlFinish);
+    eventBus.on('config:reloaded', this.handleReload);
+    this.timer = setInterval(() => this.enqueue('stale check', () => this.checkStale()), STALE_CHECK_INTERVAL_MS);
+    this.enqueue('config sync', () => this.pruneRemovedRules());
+    await this.queue;
+  }
+
+  stop() {
+    eventBus.off('crawl:finish', this.handleCrawlFinish);
+    eventBus.off('config:reloaded', this.handleReload);
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private enqueue(label: string, work: () => Promise<void>) {
+    this.queue = this.queue.then(work).catch((error) => console.error(`[alerts] ${label} failed`, error));
+  }
+
+  private handleCrawlFinish = (event: { sourceId: string; records?: Payload[] }) => {
+    const config = this.registry.get(event.sourceId);
+    const records = event.records;
+    if (!config?.alerts.length || !records?.length) return;
+    this.enqueue(`evaluation for ${event.sourceId}`, () => this.evaluatePayloads(config, records));
+  };
+
+  private handleReload = () => {
+    this.enqueue('config sync', () => this.pruneRemovedRules());
+  };
+
+  // List sources fire when any item matches; the reported value is the first matching item's.
+  private async evaluatePayloads(config: ResolvedSourceConfig, records: Payload[]) {
+    for (const rule of config.alerts) {
+      if (rule.type === 'stale') continue;
+      const state = await this.findState(config.id, rule.id);
+      const evaluations = records.map((record) => evaluateRecord(rule, record, state?.lastValue));
+      const evaluation = evaluations.find((candidate) => candidate.firing) ?? evaluations[0];
+      await this.apply(config.id, rule, state, evaluation, rule.type === 'change' ? records[0][rule.field] : undefined);
+    }
+  }
+
+  private async checkStale() {
+    let lease: Lease | null = null;
+    try {
+      lease = await this.leases.acquire(STALE_CHECK_LEASE_KEY);
+      if (lease) await this.evaluateStale();
+    } finally {
+      await lease?.release();
+    }
+  }
+
+  private async evaluateStale() {
+    const now = Date.now();
+    for (const config of this.registry.list()) {
+      const rules = config.alerts.filter((rule): rule is Extract<AlertRule, { type: 'stale' }> => rule.type === 'stale');
+      if (!config.enabled || !rules.length) continue;
+
+      const latest = await this.prisma.sourceData.findFirst({
+        where: { sourceId: config.id },
+        orderBy: { id: 'desc' },
+        select: { scrapedAt: true, confirmedAt: true }
+      });
+      const lastSeen = Math.max(
+        latest?.scrapedAt.getTime() ?? this.startedAt.getTime(),
+        latest?.confirmedAt?.getTime() ?? 0
+      );
+      const minutes = (now - lastSeen) / 60_000;
+      for (const rule of rules) {
+        await this.apply(config.id, rule, await this.findState(config.id, rule.id), {
+          firing: minutes >= rule.minutes,
+          value: new Date(lastSeen).toISOString(),
+          detail: `no new data for ${Math.floor(minutes)} minute(s) (limit ${rule.minutes})`
+        });
+      }
+    }
+  }
+
+  private findState(sourceId: string, ruleId: string) {
+    return this.prisma.alertState.findUnique({ where: { sourceId_ruleId: { sourceId, ruleId } } });
+  }
+
+  private async apply(
+    sourceId: string,
+    rule: AlertRule,
+    state: AlertState | null,
+    evaluation: Evaluation,
+    lastValue?: unknown
+  ) {
+    const where = { sourceId_ruleId: { sourceId, ruleId: rule.id } };
+    const tracked = lastValue === undefined ? {} : { lastValue: toJson(lastValue) };
+    const wasFiring = state?.status === AlertStatus.FIRING;
+
+    if (evaluation.firing && !wasFiring) {
+      const data = {
+        status: AlertStatus.FIRING,
+        severity: rule.severity,
+        message: rule.message ?? evaluation.detail,
+        value: toJson(evaluation.value),
+        firedAt: new Date(),
+        resolvedAt: null,
+        ...tracked
+      };
+      const fired = await this.prisma.alertState.upsert({
+        where,
+        update: data,
+        create: { sourceId, ruleId: rule.id, ...data }
+      });
+      this.publish('alert:fired', fired);
+      return;
+    }
+
+    if (!evaluation.firing && wasFiring) {
+      const resolved = await this.prisma.alertState.update({
+        where,
+        data: { status: AlertStatus.RESOLVED, resolvedAt: new Date(), ...tracked }
+      });
+      this.publish('alert:resolved', resolved);
+      return;
+    }
+
+    await this.prisma.alertState.upsert({
+      where,
+      update: { severity: rule.severity, ...tracked },
+      create: { sourceId, ruleId: rule.id, severity: rule.severity, ...tracked }
+    });
+  }
+
+  private publish(event: 'alert:fired' | 'alert:resolved', state: AlertState) {
+    const alert = serializeAlert(state);
+    console.info(`[alerts] ${alert.status} ${state.sourceId}/${state.ruleId}: ${state.message ?? ''}`);
+    eventBus.emit(event, alert);
+    eventBus.emit(`source:${state.sourceId}`, { type: 'alert', sourceId: state.sourceId, payload: alert });
+  }
+
+  // States of rules (or sources) that are no longer configured are deleted; firing ones resolve so
+  // consumers can clear them. Every instance prunes after a reload, so only the one whose delete
+  // removed the row publishes.
+  private async pruneRemovedRules() {
+    const configured = new Set(
+      this.registry.list().flatMap((config) => config.alerts.map((rule) => `${config.id}\u0000${rule.id}`))
+    );
+    const states = await this.prisma.alertState.findMany();
+    for (const state of states) {
+      if (configured.has(`${state.sourceId}\u0000${state.ruleId}`)) continue;
+      const { count } = await this.prisma.alertState.deleteMany({ where: { id: state.id } });
+      if (count && state.status === AlertStatus.FIRING) {
+        this.publish('alert:resolved', { ...state, status: AlertStatus.RESOLVED, resolvedAt: new Date() });
+      }
+    }
+  }
+}
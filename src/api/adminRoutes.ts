@@ -0,0 +1,76 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { SourceRegistry } from '../config/registry';
+import { Scheduler } from '../scheduler/scheduler';
+import { requireScope } from './auth';
+
+// Admin keys restricted to some sources may only control those sources.
+export function registerAdminRoutes(fastify: FastifyInstance, registry: SourceRegistry, scheduler: Scheduler) {
+  const preHandler = requireScope('admin', { sourceParam: 'id' });
+
+  const findScheduledSource = (sourceId: string, reply: FastifyReply) => {
+    const config = registry.get(sourceId);
+    if (!config || !scheduler.getSourceState(sourceId)) {
+      reply.code(404);
+      return null;
+    }
+    return config;
+  };
+
+  fastify.post<{ Params: { id: string } }>(
+    '/api/sources/:id/run',
+    { preHandler },
+    async (request, reply) => {
+      const config = findScheduledSource(request.params.id, reply);
+      if (!config) return { message: 'Source not found' };
+      if (!config.enabled) {
+        reply.code(409);
+        return { message: 'Source is disabled' };
+      }
+
+      const runAt = await scheduler.runNow(config.id);
+      if (!runAt) {
+        reply.code(409);
+        return { message: 'Source is already running', state: scheduler.getSourceState(config.id) };
+      }
+      reply.code(202);
+      const message =
+        runAt.getTime() > Date.now()
+          ? `Run queued; the minimum crawl interval delays it until ${runAt.toISOString()}`
+          : 'Run queued';
+      return { message, runAt, state: scheduler.getSourceState(config.id) };
+    }
+  );
+
+  fastify.post<{ Params: { id: string } }>(
+    '/api/sources/:id/pause',
+    { preHandler },
+    async (request, reply) => {
+      const config = findScheduledSource(request.params.id, reply);
+      if (!config) return { message: 'Source not found' };
+      await scheduler.pause(config.id);
+      return { message: 'Source paused', state: scheduler.getSourceState(config.id) };
+    }
+  );
+
+  fastify.post<{ Params: { id: string } }>(
+    '/api/sources/:id/resume',
+    { preHandler },
+    async (request, reply) => {
+      const config = findScheduledSource(request.params.id, reply);
+      if (!config) return { message: 'Source not found' };
+      await scheduler.resume(config.id);
+      return { message: 'Source resumed', state: scheduler.getSourceState(config.id) };
+    }
+  );
+
+  fastify.post<{ Params: { id: string } }>(
+    '/api/sources/:id/reset',
+    { preHandler },
+    async (request, reply) => {
+      const config = findScheduledSource(request.params.id, reply);
+      if (!config) return { message: 'Source not found' };
+      await scheduler.reset(config.id);
+      return { message: 'Failure count and backoff reset', state: scheduler.getSourceState(config.id) };
+    }
+  );
+}
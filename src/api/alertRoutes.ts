@@ -0,0 +1,33 @@
+import { FastifyInstance } from 'fastify';
+import { AlertStatus, Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { formatZodError } from '../config';
+import { serializeAlert } from '../alerts/evaluator';
+import { requireScope } from './auth';
+
+const alertQuerySchema = z.object({
+  status: z.enum(['firing', 'resolved', 'all']).default('firing'),
+  sourceId: z.string().optional()
+});
+
+export function registerAlertRoutes(fastify: FastifyInstance, prisma: PrismaClient) {
+  // Active alerts by default; rules that never fired are not listed.
+  fastify.get('/api/alerts', { preHandler: requireScope('read-data') }, async (request, reply) => {
+    const parsed = alertQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      reply.code(400);
+      return { message: formatZodError(parsed.error) };
+    }
+
+    const { status, sourceId } = parsed.data;
+    const allowed = request.apiKey?.sourceIds;
+    const sourceIds = sourceId ? (allowed && !allowed.includes(sourceId) ? [] : [sourceId]) : allowed;
+    const where: Prisma.AlertStateWhereInput = {
+      firedAt: { not: null },
+      ...(status === 'all' ? {} : { status: status === 'firing' ? AlertStatus.FIRING : AlertStatus.RESOLVED }),
+      ...(sourceIds ? { sourceId: { in: sourceIds } } : {})
+    };
+    const alerts = await prisma.alertState.findMany({ where, orderBy: { firedAt: 'desc' } });
+    return { alerts: alerts.map(serializeAlert) };
+  });
+}
@@ -0,0 +1,35 @@
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { formatZodError } from '../config';
+import { mintApiKey, mintApiKeySchema, revokeApiKey, serializeApiKey } from '../auth/apiKeys';
+import { requireAdmin } from './auth';
+
+export function registerApiKeyRoutes(fastify: FastifyInstance, prisma: PrismaClient) {
+  fastify.get('/api/keys', { preHandler: requireAdmin }, async () => {
+    const keys = await prisma.apiKey.findMany({ orderBy: { createdAt: 'asc' } });
+    return { keys: keys.map(serializeApiKey) };
+  });
+
+  // The key itself is returned only once, in the creation response.
+  fastify.post('/api/keys', { preHandler: requireAdmin }, async (request, reply) => {
+    const parsed = mintApiKeySchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return { message: formatZodError(parsed.error) };
+    }
+
+    const { key, record } = await mintApiKey(prisma, parsed.data);
+    reply.code(201);
+    return { ...serializeApiKey(record), key };
+  });
+
+  fastify.delete<{ Params: { id: string } }>('/api/keys/:id', { preHandler: requireAdmin }, async (request, reply) => {
+    const record = await revokeApiKey(prisma, request.params.id);
+    if (!record) {
+      reply.code(404);
+      return { message: 'API key not found' };
+    }
+    fastify.apiKeys.invalidate();
+    return serializeApiKey(record);
+  });
+}
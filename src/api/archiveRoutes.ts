@@ -0,0 +1,39 @@
+import fs from 'fs';
+import { FastifyInstance } from 'fastify';
+import { SourceRegistry } from '../config/registry';
+import { listArchives, resolveArchivePath } from '../retention/retention';
+import { requireScope } from './auth';
+
+const readSourceData = requireScope('read-data', { sourceParam: 'id' });
+
+export function registerArchiveRoutes(fastify: FastifyInstance, registry: SourceRegistry) {
+  fastify.get<{ Params: { id: string } }>(
+    '/api/sources/:id/archives',
+    { preHandler: readSourceData },
+    async (request, reply) => {
+      const config = registry.get(request.params.id);
+      if (!config) {
+        reply.code(404);
+        return { message: 'Source not found' };
+      }
+      return { sourceId: config.id, archives: await listArchives(config.id) };
+    }
+  );
+
+  fastify.get<{ Params: { id: string; file: string } }>(
+    '/api/sources/:id/archives/:file',
+    { preHandler: readSourceData },
+    async (request, reply) => {
+      const config = registry.get(request.params.id);
+      const filePath = config ? resolveArchivePath(config.id, request.params.file) : null;
+      if (!filePath) {
+        reply.code(404);
+        return { message: 'Archive not found' };
+      }
+
+      reply.header('content-type', 'application/gzip');
+      reply.header('content-disposition', `attachment; filename="${request.params.file}"`);
+      return reply.send(fs.createReadStream(filePath));
+    }
+  );
+}
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { resolveArtifactPath } from '../crawler/artifacts';
+import { requireScope } from './auth';
+
+const CONTENT_TYPES: Record<string, string> = {
+  'screenshot.png': 'image/png',
+  'dom.html': 'text/html; charset=utf-8',
+  'console.log': 'text/plain; charset=utf-8',
+  'trace.zip': 'application/zip'
+};
+
+type RunParams = { id: string; runId: string };
+
+// Artifacts can show authenticated pages, so they are limited to admin keys.
+export function registerArtifactRoutes(fastify: FastifyInstance, prisma: PrismaClient) {
+  const preHandler = requireScope('admin', { sourceParam: 'id' });
+
+  const findRun = (params: RunParams) => {
+    const runId = Number(params.runId);
+    if (!Number.isInteger(runId)) return null;
+    return prisma.sourceStatus.findFirst({
+      where: { id: runId, sourceId: params.id },
+      include: { artifacts: { orderBy: { id: 'asc' } } }
+    });
+  };
+
+  fastify.get<{ Params: RunParams }>(
+    '/api/sources/:id/runs/:runId/artifacts',
+    { preHandler },
+    async (request, reply) => {
+      const run = await findRun(request.params);
+      if (!run) {
+        reply.code(404);
+        return { message: 'Run not found' };
+      }
+
+      const { id, runId } = request.params;
+      return {
+        sourceId: id,
+        runId: run.id,
+        status: run.status,
+        message: run.message,
+        runAt: run.runAt,
+        artifacts: run.artifacts.map((artifact) => ({
+          kind: artifact.kind,
+          name: artifact.name,
+          size: artifact.size,
+          createdAt: artifact.createdAt,
+          url: `/api/sources/${id}/runs/${runId}/artifacts/${artifact.name}`
+        }))
+      };
+    }
+  );
+
+  fastify.get<{ Params: RunParams & { name: string } }>(
+    '/api/sources/:id/runs/:runId/artifacts/:name',
+    { preHandler },
+    async (request, reply) => {
+      const run = await findRun(request.params);
+      const stored = run?.artifacts.some((artifact) => artifact.name === request.params.name);
+      const filePath = run && stored ? resolveArtifactPath(run.sourceId, run.id, request.params.name) : null;
+      if (!filePath) {
+        reply.code(404);
+        return { message: 'Artifact not found' };
+      }
+
+      reply.header('content-type', CONTENT_TYPES[request.params.name]);
+      reply.header('content-disposition', `attachment; filename="${run!.sourceId}-${run!.id}-${request.params.name}"`);
+      return reply.send(fs.createReadStream(filePath));
+    }
+  );
+}
@@ -0,0 +1,97 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { ApiKeyPrincipal, ApiKeyStore, ApiScope } from '../auth/apiKeys';
+import { ConnectionLimiter, RequestRateLimiter } from '../auth/limits';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    apiKeys: ApiKeyStore;
+  }
+  interface FastifyRequest {
+    apiKey: ApiKeyPrincipal | null;
+  }
+}
+
+const requestLimiter = new RequestRateLimiter();
+const connectionLimiter = new ConnectionLimiter();
+
+// Keys are sent as a bearer token or X-API-Key header; WebSocket and EventSource clients, which
+// cannot always set headers, may pass ?api_key= instead.
+function presentedKey(request: FastifyRequest) {
+  const header = request.headers.authorization ?? '';
+  if (header.startsWith('Bearer ')) return header.slice('Bearer '.length);
+  const apiKeyHeader = request.headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) return apiKeyHeader;
+  const query = request.query as Record<string, unknown> | undefined;
+  return typeof query?.api_key === 'string' && query.api_key ? query.api_key : null;
+}
+
+// Strips ?api_key= from URLs before they are logged.
+export function redactUrl(url: string) {
+  return url.replace(/([?&]api_key=)[^&]*/g, '$1[redacted]');
+}
+
+export function hasScope(request: FastifyRequest, scope: ApiScope) {
+  return Boolean(request.apiKey?.scopes.includes(scope));
+}
+
+export function canAccessSource(request: FastifyRequest, sourceId: string) {
+  const sourceIds = request.apiKey?.sourceIds;
+  return !sourceIds || sourceIds.includes(sourceId);
+}
+
+// Authenticates the caller, charges the request against the key's rate limit and checks the scope.
+// With `sourceParam`, the route parameter of that name must be a source the key may access. With
+// `allSources`, keys restricted to some sources are refused.
+export function requireScope(scope: ApiScope, options: { sourceParam?: string; allSources?: boolean } = {}) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const key = presentedKey(request);
+    if (!key) {
+      return reply.code(401).send({ message: 'Missing API key' });
+    }
+    const principal = await request.server.apiKeys.authenticate(key);
+    if (!principal) {
+      return reply.code(401).send({ message: 'Invalid or revoked API key' });
+    }
+    request.apiKey = principal;
+
+    const retryAfter = requestLimiter.take(principal);
+    if (retryAfter !== null) {
+      reply.header('retry-after', String(retryAfter));
+      return reply.code(429).send({ message: 'Rate limit exceeded' });
+    }
+
+    if (!principal.scopes.includes(scope)) {
+      return reply.code(403).send({ message: `API key lacks the "${scope}" scope` });
+    }
+
+    if (options.allSources && principal.sourceIds) {
+      return reply.code(403).send({ message: 'API key is restricted to some sources' });
+    }
+
+    const sourceId = options.sourceParam && (request.params as Record<string, string>)[options.sourceParam];
+    if (sourceId && !canAccessSource(request, sourceId)) {
+      return reply.code(403).send({ message: `API key may not access source ${sourceId}` });
+    }
+  };
+}
+
+// Key management, webhooks and config reloads reach every source, so source-restricted admin keys
+// cannot use them (they could otherwise mint an unrestricted key).
+export const requireAdmin = requireScope('admin', { allSources: true });
+
+// For WebSocket and SSE routes, after requireScope: holds one of the key's connection slots until
+// the underlying socket (or the streamed response) closes.
+export async function requireConnectionSlot(request: FastifyRequest, reply: FastifyReply) {
+  if (!request.apiKey) return;
+  const release = connectionLimiter.acquire(request.apiKey);
+  if (!release) {
+    return reply.code(429).send({ message: 'Connection limit reached for this API key' });
+  }
+  const socket = request.raw.socket;
+  const onClose = () => {
+    socket.off('close', onClose);
+    release();
+  };
+  socket.once('close', onClose);
+  reply.raw.once('close', onClose);
+}
@@ -0,0 +1,51 @@
+import { FastifyInstance } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { SourceRegistry } from '../config/registry';
+import { checkBrowser } from '../crawler/crawler';
+import { RelayMetrics } from '../metrics/metrics';
+
+type CheckResult = { ok: true; [key: string]: unknown } | { ok: false; error: string };
+
+async function runCheck(check: () => Promise<Record<string, unknown> | void>): Promise<CheckResult> {
+  try {
+    return { ok: true, ...(await check()) };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export function registerHealthRoutes(
+  fastify: FastifyInstance,
+  prisma: PrismaClient,
+  registry: SourceRegistry,
+  metrics: RelayMetrics
+) {
+  const checkDatabase = () =>
+    runCheck(async () => {
+      await prisma.$queryRaw`SELECT 1`;
+    });
+
+  fastify.get('/metrics', async (_request, reply) => {
+    reply.header('content-type', metrics.registry.contentType);
+    return metrics.render();
+  });
+
+  fastify.get('/healthz', async (_request, reply) => {
+    const database = await checkDatabase();
+    reply.code(database.ok ? 200 : 503);
+    return { status: database.ok ? 'ok' : 'error', checks: { database } };
+  });
+
+  // The browser check only applies when at least one enabled source needs a browser.
+  fastify.get('/readyz', async (_request, reply) => {
+    const browserSources = registry.list().filter((config) => config.enabled && config.kind === 'browser');
+    const checks: Record<string, CheckResult> = { database: await checkDatabase() };
+    if (browserSources.length) {
+      checks.browser = await runCheck(() => checkBrowser(browserSources.map((config) => config.browser)));
+    }
+
+    const ready = Object.values(checks).every((check) => check.ok);
+    reply.code(ready ? 200 : 503);
+    return { status: ready ? 'ready' : 'not_ready', checks };
+  });
+}
@@ -0,0 +1,178 @@
+import { Readable } from 'stream';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { Prisma, PrismaClient, SourceData } from '@prisma/client';
+import { z } from 'zod';
+import { ResolvedSourceConfig, formatZodError } from '../config';
+import { SourceRegistry } from '../config/registry';
+import { retainedSince, retentionCutoff } from '../retention/retention';
+import { requireScope } from './auth';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const EXPORT_BATCH_SIZE = 500;
+const CSV_META_COLUMNS = ['id', 'scrapedAt', 'timestamp', 'batchId', 'itemIndex'] as const;
+
+type HistoryFormat = 'json' | 'csv' | 'ndjson';
+
+const dateParamSchema = z.string().refine((value) => !Number.isNaN(new Date(value).getTime()), 'Invalid date');
+
+const historyQuerySchema = z.object({
+  from: dateParamSchema.optional(),
+  to: dateParamSchema.optional(),
+  limit: z.coerce.number().int().positive().max(MAX_PAGE_SIZE).optional(),
+  cursor: z.coerce.number().int().nonnegative().optional(),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  fields: z.string().optional(),
+  format: z.enum(['json', 'csv', 'ndjson']).optional()
+});
+
+type HistoryQuery = z.infer<typeof historyQuerySchema>;
+
+// An explicit `format` wins; otherwise the Accept header picks CSV or NDJSON and anything else gets JSON.
+function negotiateFormat(request: FastifyRequest, query: HistoryQuery): HistoryFormat {
+  if (query.format) return query.format;
+  const accept = request.headers.accept ?? '';
+  if (accept.includes('text/csv')) return 'csv';
+  if (accept.includes('application/x-ndjson') || accept.includes('application/ndjson')) return 'ndjson';
+  return 'json';
+}
+
+function projectValue(value: Prisma.JsonValue, fields: string[] | null): Prisma.JsonValue {
+  if (!fields) return value;
+  if (Array.isArray(value)) return value.map((item) => projectValue(item, fields));
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(fields.map((field) => [field, (value as Prisma.JsonObject)[field] ?? null]));
+}
+
+function projectRow(row: SourceData, fields: string[] | null) {
+  return fields ? { ...row, raw: projectValue(row.raw, fields), parsed: projectValue(row.parsed, fields) } : row;
+}
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Array-mode rows hold the whole list in one row, so they expand to one CSV line per item.
+function csvLines(row: SourceData, columns: string[]) {
+  const items = Array.isArray(row.parsed) ? row.parsed : [row.parsed];
+  return items.map((item, index) => {
+    const parsed = (item && typeof item === 'object' && !Array.isArray(item) ? item : {}) as Prisma.JsonObject;
+    const meta = [row.id, row.scrapedAt, row.timestamp, row.batchId, Array.isArray(row.parsed) ? index : row.itemIndex];
+    return [...meta, ...columns.map((column) => parsed[column])].map(csvCell).join(',');
+  });
+}
+
+async function* iterateHistory(prisma: PrismaClient, where: Prisma.SourceDataWhereInput, query: HistoryQuery) {
+  let cursor = query.cursor;
+  let remaining = query.limit ?? Infinity;
+  while (remaining > 0) {
+    const batch = await prisma.sourceData.findMany({
+      where: cursor === undefined ? where : { AND: [where, { id: query.order === 'asc' ? { gt: cursor } : { lt: cursor } }] },
+      orderBy: { id: query.order },
+      take: Math.min(EXPORT_BATCH_SIZE, remaining)
+    });
+    yield* batch;
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+    remaining -= batch.length;
+  }
+}
+
+async function* csvStream(rows: AsyncIterable<SourceData>, columns: string[]) {
+  yield `${[...CSV_META_COLUMNS, ...columns].map(csvCell).join(',')}\n`;
+  for await (const row of rows) {
+    yield `${csvLines(row, columns).join('\n')}\n`;
+  }
+}
+
+async function* ndjsonStream(rows: AsyncIterable<SourceData>, fields: string[] | null) {
+  for await (const row of rows) {
+    yield `${JSON.stringify(projectRow(row, fields))}\n`;
+  }
+}
+
+function parseFields(config: ResolvedSourceConfig, fields: string | undefined) {
+  if (!fields) return { fields: null, unknown: [] };
+  const requested = [...new Set(fields.split(',').map((field) => field.trim()).filter(Boolean))];
+  return { fields: requested, unknown: requested.filter((field) => !(field in config.outputSchema)) };
+}
+
+export function registerHistoryRoutes(fastify: FastifyInstance, prisma: PrismaClient, registry: SourceRegistry) {
+  fastify.get<{ Params: { id: string }; Querystring: Record<string, string> }>(
+    '/api/sources/:id/history',
+    { preHandler: requireScope('read-data', { sourceParam: 'id' }) },
+    async (request, reply) => {
+      const sourceId = request.params.id;
+      const config = registry.get(sourceId);
+      const source = await prisma.source.findUnique({ where: { id: sourceId } });
+      if (!config || !source || !source.enabled) {
+        reply.code(404);
+        return { message: 'Source not found or disabled' };
+      }
+
+      const parsedQuery = historyQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) {
+        reply.code(400);
+        return { message: formatZodError(parsedQuery.error) };
+      }
+      const query = parsedQuery.data;
+
+      const { fields, unknown } = parseFields(config, query.fields);
+      if (unknown.length) {
+        reply.code(400);
+        return { message: `Unknown fields: ${unknown.join(', ')}` };
+      }
+
+      const now = new Date();
+      const defaultFrom = retentionCutoff(config);
+      const queryFrom = query.from ? new Date(query.from) : defaultFrom;
+      const queryTo = query.to ? new Date(query.to) : now;
+      const lowerBound = queryFrom < defaultFrom ? defaultFrom : queryFrom;
+      const upperBound = queryTo > now ? now : queryTo;
+
+      if (lowerBound > upperBound) {
+        reply.code(400);
+        return { message: 'from must be before to' };
+      }
+
+      // Rows scraped before the cutoff whose value is still being confirmed are inside the window too.
+      const where: Prisma.SourceDataWhereInput = {
+        sourceId,
+        scrapedAt: { gte: queryFrom, lte: upperBound },
+        ...retainedSince(defaultFrom)
+      };
+      const format = negotiateFormat(request, query);
+
+      if (format === 'csv') {
+        reply.header('content-type', 'text/csv; charset=utf-8');
+        reply.header('content-disposition', `attachment; filename="${sourceId}-history.csv"`);
+        const columns = fields ?? Object.keys(config.outputSchema);
+        return reply.send(Readable.from(csvStream(iterateHistory(prisma, where, query), columns)));
+      }
+
+      if (format === 'ndjson') {
+        reply.header('content-type', 'application/x-ndjson');
+        return reply.send(Readable.from(ndjsonStream(iterateHistory(prisma, where, query), fields)));
+      }
+
+      const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+      const page: SourceData[] = [];
+      for await (const row of iterateHistory(prisma, where, { ...query, limit: limit + 1 })) {
+        page.push(row);
+      }
+      const hasMore = page.length > limit;
+      const data = page.slice(0, limit).map((row) => projectRow(row, fields));
+
+      return {
+        from: lowerBound,
+        to: upperBound,
+        order: query.order,
+        limit,
+        data,
+        nextCursor: hasMore ? data[data.length - 1].id : null
+      };
+    }
+  );
+}
@@ -1,25 +1,56 @@
-import Fastify from 'fastify';
-import { chromium } from 'playwright';
+import Fastify, { FastifyReply, FastifyRequest } from 'fastify';
 import { PrismaClient } from '@prisma/client';
 import {
   ResolvedSourceConfig,
   SourceConfig,
   formatZodError,
+  redactAuth,
   resolveSourceConfig,
+  secretEnvNames,
   sourceSchema
 } from '../config';
-import { RETENTION_WINDOW_MS } from '../shared/constants';
+import { ConfigReloader } from '../config/reloader';
+import { SourceRegistry } from '../config/registry';
+import { retentionCutoff } from '../retention/retention';
+import { findLatestData } from '../db/sourceData';
+import { runActions } from '../crawler/actions';
+import { authContextOptions, openAuthenticatedPage } from '../crawler/auth';
+import { browserPool } from '../crawler/browserPool';
+import { fetchHttpDocument, selectCandidate, toRawValue } from '../crawler/httpFetcher';
+import { locateCandidate } from '../crawler/locators';
+import { getSelectorHealth } from '../crawler/selectorHealth';
+import { ApiKeyStore } from '../auth/apiKeys';
+import { Scheduler } from '../scheduler/scheduler';
+import { canAccessSource, hasScope, redactUrl, requireAdmin, requireScope } from './auth';
 
-export function createApiServer(prisma: PrismaClient, configs: ResolvedSourceConfig[]) {
-  const fastify = Fastify({ logger: true });
+export function createApiServer(
+  prisma: PrismaClient,
+  registry: SourceRegistry,
+  reloader: ConfigReloader,
+  scheduler: Scheduler
+) {
+  const fastify = Fastify({
+    logger: {
+      serializers: {
+        req: (request) => ({
+          method: request.method,
+          url: redactUrl(request.url),
+          hostname: request.hostname,
+          remoteAddress: request.ip
+        })
+      }
+    }
+  });
+  fastify.decorate('apiKeys', new ApiKeyStore(prisma));
+  fastify.decorateRequest('apiKey', null);
 
   const serializeConfig = (config: ResolvedSourceConfig) => {
     const { outputParser: _parser, ...rest } = config;
-    return rest;
+    return { ...rest, auth: redactAuth(rest.auth) };
   };
 
   fastify.addHook('onRequest', (request, _reply, done) => {
-    request.log.info({ method: request.method, url: request.url }, 'incoming request');
+    request.log.info({ method: request.method, url: redactUrl(request.url) }, 'incoming request');
     done();
   });
 
@@ -28,8 +59,10 @@ export function createApiServer(prisma: PrismaClient, configs: ResolvedSourceCon
     done();
   });
 
-  fastify.get('/api/sources', async () => {
+  fastify.get('/api/sources', { preHandler: requireScope('read-data') }, async (request) => {
+    const allowed = request.apiKey?.sourceIds;
     const sources = await prisma.source.findMany({
+      where: allowed ? { id: { in: allowed } } : undefined,
       select: {
         id: true,
         name: true,
@@ -38,51 +71,54 @@ export function createApiServer(prisma: PrismaClient, configs: ResolvedSourceCon
         enabled: true,
         lastRunAt: true,
         lastStatus: true,
-        failureCount: true
+        failureCount: true,
+        paused: true
       }
     });
-    return { sources };
+    // Null for manual sources, paused sources and sources that are not scheduled (e.g. disabled).
+    return {
+      sources: sources.map((source) => {
+        const state = scheduler.getSourceState(source.id);
+        return { ...source, nextRunAt: source.enabled && !state?.paused ? state?.nextRunAt ?? null : null };
+      })
+    };
   });
 
-  fastify.get<{ Params: { id: string } }>('/api/sources/:id', async (request, reply) => {
-    const config = configs.find((entry) => entry.id === request.params.id);
-    const source = await prisma.source.findUnique({
-      where: { id: request.params.id },
-      include: { statuses: { orderBy: { runAt: 'desc' }, take: 5 } }
-    });
+  const readSourceData = requireScope('read-data', { sourceParam: 'id' });
 
-    if (!source || !config) {
-      reply.code(404);
-      return { message: 'Source not found' };
-    }
-
-    return { ...source, config: serializeConfig(config) };
-  });
-
-  fastify.get<{ Params: { id: string } }>('/api/sources/:id/latest', async (request, reply) => {
-    const sourceId = request.params.id;
-    const source = await prisma.source.findUnique({ where: { id: sourceId } });
-    if (!source || !source.enabled) {
-      reply.code(404);
-      return { message: 'Source not found or disabled' };
-    }
+  // The source config is included only for keys that also hold read-config.
+  fastify.get<{ Params: { id: string } }>(
+    '/api/sources/:id',
+    { preHandler: readSourceData },
+    async (request, reply) => {
+      const config = registry.get(request.params.id);
+      const source = await prisma.source.findUnique({
+        where: { id: request.params.id },
+        include: {
+          statuses: {
+            orderBy: { runAt: 'desc' },
+            take: 5,
+            include: { artifacts: { select: { kind: true, name: true, size: true } } }
+          }
+        }
+      });
 
-    const cutoff = new Date(Date.now() - RETENTION_WINDOW_MS);
-    const latest = await prisma.sourceData.findFirst({
-      where: { sourceId, scrapedAt: { gte: cutoff } },
-      orderBy: { scrapedAt: 'desc' }
-    });
+      if (!source || !config) {
+        reply.code(404);
+        return { message: 'Source not found' };
+      }
 
-    if (!latest) {
-      reply.code(404);
-      return { message: 'No data found for source' };
+      return {
+        ...source,
+        config: hasScope(request, 'read-config') ? serializeConfig(config) : undefined,
+        selectorHealth: await getSelectorHealth(prisma, config)
+      };
     }
+  );
 
-    return latest;
-  });
-
-  fastify.get<{ Params: { id: string }; Querystring: { from?: string; to?: string } }>(
-    '/api/sources/:id/history',
+  fastify.get<{ Params: { id: string } }>(
+    '/api/sources/:id/latest',
+    { preHandler: readSourceData },
     async (request, reply) => {
       const sourceId = request.params.id;
       const source = await prisma.source.findUnique({ where: { id: sourceId } });
@@ -91,105 +127,172 @@ export function createApiServer(prisma: PrismaClient, configs: ResolvedSourceCon
         return { message: 'Source not found or disabled' };
       }
 
-      const now = Date.now();
-      const defaultFrom = new Date(now - RETENTION_WINDOW_MS);
-      const queryFrom = request.query.from ? new Date(request.query.from) : defaultFrom;
-      const queryTo = request.query.to ? new Date(request.query.to) : new Date(now);
-
-      if (Number.isNaN(queryFrom.getTime()) || Number.isNaN(queryTo.getTime())) {
-        reply.code(400);
-        return { message: 'Invalid date range' };
-      }
-
-      const lowerBound = queryFrom < defaultFrom ? defaultFrom : queryFrom;
-      const upperBound = queryTo > new Date(now) ? new Date(now) : queryTo;
+      const cutoff = retentionCutoff(registry.get(sourceId));
+      const latest = await findLatestData(prisma, sourceId, cutoff);
 
-      if (lowerBound > upperBound) {
-        reply.code(400);
-        return { message: 'from must be before to' };
-      }
-
-      const history = await prisma.sourceData.findMany({
-        where: { sourceId, scrapedAt: { gte: lowerBound, lte: upperBound } },
-        orderBy: { scrapedAt: 'asc' }
-      });
-
-      if (!history.length) {
+      if (!latest) {
         reply.code(404);
-        return { message: 'No history found for source' };
+        return { message: 'No data found for source' };
       }
 
-      return { from: lowerBound, to: upperBound, data: history };
+      return latest;
     }
   );
 
-  fastify.get('/api/config/sources', async () => configs.map((config) => serializeConfig(config)));
-
-  fastify.post<{ Body: SourceConfig }>('/api/preview', async (request, reply) => {
-    if (process.env.NODE_ENV === 'production') {
-      reply.code(403);
-      return { message: 'Preview endpoint disabled in production' };
-    }
+  fastify.get('/api/config/sources', { preHandler: requireScope('read-config') }, async (request) =>
+    registry
+      .list()
+      .filter((config) => canAccessSource(request, config.id))
+      .map((config) => serializeConfig(config))
+  );
 
-    const parsed = sourceSchema.safeParse(request.body);
-    if (!parsed.success) {
-      reply.code(400);
-      return { message: formatZodError(parsed.error) };
+  fastify.post('/api/config/reload', { preHandler: requireAdmin }, async (request, reply) => {
+    try {
+      return await reloader.reload();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      request.log.error({ err: error }, 'config reload failed');
+      reply.code(500);
+      return { message: 'Reload failed', error: message };
     }
+  });
 
-    const config = resolveSourceConfig(parsed.data);
-    const browser = await chromium.launch({ headless: config.browser.headless });
-    const context = await browser.newContext({
-      userAgent: config.browser.userAgent,
-      viewport: config.browser.viewport
-    });
-    const page = await context.newPage();
-
-    const results: Array<{ field: string; matches: number; value: string | null; error?: string }> = [];
+  const previewHttpSource = async (config: ResolvedSourceConfig, request: FastifyRequest, reply: FastifyReply) => {
+    const results: Array<{ field: string; matches: number; candidate: number | null; value: unknown; error?: string }> =
+      [];
     const warnings: string[] = [];
 
     try {
-      await page.goto(config.url, {
-        timeout: config.browser.timeouts.navigationMs,
-        waitUntil: 'networkidle'
-      });
-
+      const { format, root } = await fetchHttpDocument(config);
       for (const selector of config.selectorList) {
-        const locator = selector.css ? page.locator(selector.css) : page.locator(`xpath=${selector.xpath}`);
         try {
-          await locator.first().waitFor({ state: 'attached', timeout: config.browser.timeouts.actionMs });
-          const matchCount = await locator.count();
-          const element = locator.first();
-          const value = selector.attribute
-            ? await element.getAttribute(selector.attribute)
-            : await element.textContent();
-          const resolvedValue = value?.toString().trim() ?? null;
-
-          if (matchCount > 1) {
-            const warning = `Selector for field "${selector.field}" matched ${matchCount} elements`;
-            warnings.push(warning);
+          const match = selectCandidate(format, root, selector);
+          const matches = match?.matches ?? [];
+          if (matches.length > 1) {
+            warnings.push(`Selector for field "${selector.field}" matched ${matches.length} values`);
           }
-
-          results.push({ field: selector.field, matches: matchCount, value: resolvedValue });
+          if (!match) {
+            warnings.push(`Selector for field "${selector.field}" matched nothing`);
+          } else if (match.candidate > 0) {
+            warnings.push(`Selector for field "${selector.field}" matched fallback ${match.candidate}`);
+          }
+          results.push({
+            field: selector.field,
+            matches: matches.length,
+            candidate: match?.candidate ?? null,
+            value: match ? toRawValue(matches[0], match.attribute) : null
+          });
         } catch (error) {
           const message = error instanceof Error ? error.message : 'Unknown error';
-          const warning = `Selector for field "${selector.field}" failed: ${message}`;
-          warnings.push(warning);
-          results.push({ field: selector.field, matches: 0, value: null, error: message });
+          warnings.push(`Selector for field "${selector.field}" failed: ${message}`);
+          results.push({ field: selector.field, matches: 0, candidate: null, value: null, error: message });
         }
       }
 
       return { url: config.url, results, warnings };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
-      request.log.error({ err: error }, 'preview crawl failed');
+      request.log.error({ err: error }, 'preview request failed');
       reply.code(500);
       return { message: 'Preview failed', error: message, warnings };
-    } finally {
-      await context.close();
-      await browser.close();
     }
-  });
+  };
+
+  fastify.post<{ Body: SourceConfig }>(
+    '/api/preview',
+    { preHandler: requireScope('preview') },
+    async (request, reply) => {
+      if (process.env.NODE_ENV === 'production') {
+        reply.code(403);
+        return { message: 'Preview endpoint disabled in production' };
+      }
+
+      const parsed = sourceSchema.safeParse(request.body);
+      if (!parsed.success) {
+        reply.code(400);
+        return { message: formatZodError(parsed.error) };
+      }
+
+      // Previews fetch a URL the caller chooses, so they never read secrets from the server's environment.
+      const secretNames = secretEnvNames(parsed.data);
+      if (secretNames.length) {
+        reply.code(400);
+        return { message: `Preview cannot use environment secrets (${secretNames.join(', ')}); use inline values` };
+      }
+
+      const config = resolveSourceConfig(parsed.data);
+      if (config.kind === 'http') {
+        return previewHttpSource(config, request, reply);
+      }
+
+      // Preview contexts are never kept warm and never read or store persisted sessions; previews are
+      // one-off and may use unsaved configs.
+      const lease = await browserPool.acquire(config, { warm: false, context: await authContextOptions(null, config) });
+      const { page } = lease;
+
+      const results: Array<{
+        field: string;
+        matches: number;
+        candidate: number | null;
+        value: string | null;
+        error?: string;
+      }> = [];
+      const warnings: string[] = [];
+
+      try {
+        if (config.auth) {
+          await openAuthenticatedPage(null, page, config, false);
+        } else {
+          await page.goto(config.url, {
+            timeout: config.browser.timeouts.navigationMs,
+            waitUntil: 'networkidle'
+          });
+        }
+        await runActions(page, config);
+
+        for (const selector of config.selectorList) {
+          try {
+            const match = await locateCandidate(page, selector, config.browser.timeouts.actionMs);
+            if (!match) {
+              throw new Error(`No candidate matched within ${config.browser.timeouts.actionMs}ms`);
+            }
+            const element = match.locator.first();
+            const value = match.attribute ? await element.getAttribute(match.attribute) : await element.textContent();
+            const resolvedValue = value?.toString().trim() ?? null;
+
+            if (match.count > 1) {
+              const warning = `Selector for field "${selector.field}" matched ${match.count} elements`;
+              warnings.push(warning);
+            }
+            if (match.candidate > 0) {
+              warnings.push(`Selector for field "${selector.field}" matched fallback ${match.candidate}`);
+            }
+
+            results.push({
+              field: selector.field,
+              matches: match.count,
+              candidate: match.candidate,
+              value: resolvedValue
+            });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const warning = `Selector for field "${selector.field}" failed: ${message}`;
+            warnings.push(warning);
+            results.push({ field: selector.field, matches: 0, candidate: null, value: null, error: message });
+          }
+        }
+
+        return { url: config.url, results, warnings };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        request.log.error({ err: error }, 'preview crawl failed');
+        reply.code(500);
+        return { message: 'Preview failed', error: message, warnings };
+      } finally {
+        await lease.release();
+      }
+    }
+  );
 
   return fastify;
 }
@@ -0,0 +1,187 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { PrismaClient } from '@prisma/client';
+import { ConfigReloadResult } from '../config/reloader';
+import { SourceRegistry } from '../config/registry';
+import { findLatestData } from '../db/sourceData';
+import { retainedSince, retentionCutoff } from '../retention/retention';
+import { eventBus } from '../shared/eventBus';
+import { SourceChannelEvent, eventRowId, lastRowId, rowsAfter, toClientMessage } from '../ws/messages';
+import { trackSubscriber } from '../ws/subscribers';
+import { canAccessSource, requireConnectionSlot, requireScope } from './auth';
+
+const KEEPALIVE_INTERVAL_MS = 15_000;
+const REPLAY_BATCH_SIZE = 500;
+
+type LatestData = Awaited<ReturnType<typeof findLatestData>>;
+
+function writeEvent(reply: FastifyReply, event: string, data: unknown, id?: number) {
+  const lines = id !== undefined ? [`id: ${id}`] : [];
+  lines.push(`event: ${event}`, `data: ${JSON.stringify(data)}`);
+  reply.raw.write(`${lines.join('\n')}\n\n`);
+}
+
+function latestRowId(latest: NonNullable<LatestData>) {
+  return 'items' in latest ? lastRowId(latest.items) : latest.id;
+}
+
+function parseLastEventId(request: FastifyRequest) {
+  const header = request.headers['last-event-id'];
+  const value = Number(Array.isArray(header) ? header[0] : header);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+export function registerStreamRoutes(fastify: FastifyInstance, prisma: PrismaClient, registry: SourceRegistry) {
+  const openStream = async (request: FastifyRequest, reply: FastifyReply, sourceIds: string[]) => {
+    const lastEventId = parseLastEventId(request);
+    const active = new Set(sourceIds);
+    const handlers = new Map<string, (event: SourceChannelEvent) => void>();
+    let closed = false;
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache',
+      connection: 'keep-alive',
+      'x-accel-buffering': 'no'
+    });
+
+    const unsubscribe = (sourceId: string) => {
+      const handler = handlers.get(sourceId);
+      if (!handler) return;
+      eventBus.off(`source:${sourceId}`, handler);
+      trackSubscriber(sourceId, -1);
+      handlers.delete(sourceId);
+    };
+
+    const keepalive = setInterval(() => reply.raw.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(keepalive);
+      eventBus.off('config:reloaded', reloadHandler);
+      [...handlers.keys()].forEach(unsubscribe);
+    };
+
+    const reloadHandler = (result: ConfigReloadResult) => {
+      for (const sourceId of active) {
+        const current = registry.get(sourceId);
+        if (result.removed.includes(sourceId) || !current?.enabled) {
+          writeEvent(reply, 'error', { type: 'error', sourceId, message: 'Source removed or disabled' });
+          unsubscribe(sourceId);
+          active.delete(sourceId);
+        }
+      }
+      if (!active.size) {
+        close();
+        reply.raw.end();
+      }
+    };
+
+    const send = (event: SourceChannelEvent) => {
+      const message = toClientMessage(event);
+      writeEvent(reply, message.type, message, eventRowId(event));
+    };
+
+    // Subscribe before sending the latest rows or replaying, so rows stored meanwhile are not lost. They
+    // are held until then: sent right away, a newer id would become the client's Last-Event-ID while
+    // older rows were still to come, and a reconnect at that point would skip them.
+    let held: SourceChannelEvent[] | null = [];
+    for (const sourceId of sourceIds) {
+      const handler = (event: SourceChannelEvent) => {
+        if (held) {
+          held.push(event);
+        } else {
+          send(event);
+        }
+      };
+      eventBus.on(`source:${sourceId}`, handler);
+      trackSubscriber(sourceId, 1);
+      handlers.set(sourceId, handler);
+    }
+    eventBus.on('config:reloaded', reloadHandler);
+    request.raw.on('close', close);
+
+    writeEvent(reply, 'connected', { type: 'connected', sources: sourceIds });
+
+    // Held rows the replay (or each source's latest row) already covered are dropped when the live
+    // stream starts.
+    let cursor = lastEventId ?? 0;
+    const latestIds = new Map<string, number>();
+    try {
+      if (lastEventId === null) {
+        for (const sourceId of sourceIds) {
+          const latest = await findLatestData(prisma, sourceId, retentionCutoff(registry.get(sourceId)));
+          if (latest && !closed) {
+            const id = latestRowId(latest);
+            writeEvent(reply, 'latest', { type: 'latest', sourceId, payload: latest }, id);
+            if (id !== undefined) latestIds.set(sourceId, id);
+          }
+        }
+        return;
+      }
+
+      const where = sourceIds.map((sourceId) => ({
+        sourceId,
+        ...retainedSince(retentionCutoff(registry.get(sourceId)))
+      }));
+      while (!closed) {
+        const rows = await prisma.sourceData.findMany({
+          where: { OR: where, id: { gt: cursor } },
+          orderBy: { id: 'asc' },
+          take: REPLAY_BATCH_SIZE
+        });
+        for (const row of rows) {
+          const message = toClientMessage({ type: 'data', sourceId: row.sourceId, payload: row });
+          writeEvent(reply, message.type, message, row.id);
+        }
+        if (rows.length) cursor = rows[rows.length - 1].id;
+        if (rows.length < REPLAY_BATCH_SIZE) break;
+      }
+    } finally {
+      const pending = held ?? [];
+      held = null;
+      for (const event of pending) {
+        const remaining = rowsAfter(event, latestIds.get(event.sourceId) ?? cursor);
+        if (remaining && !closed) send(remaining);
+      }
+    }
+  };
+
+  const unknownSources = (ids: string[]) => ids.filter((id) => !registry.get(id)?.enabled);
+
+  fastify.get<{ Params: { id: string } }>(
+    '/api/sources/:id/stream',
+    { preHandler: [requireScope('read-data', { sourceParam: 'id' }), requireConnectionSlot] },
+    async (request, reply) => {
+      if (unknownSources([request.params.id]).length) {
+        reply.code(404);
+        return { message: 'Unknown or disabled source' };
+      }
+      await openStream(request, reply, [request.params.id]);
+    }
+  );
+
+  fastify.get<{ Querystring: { sources?: string } }>(
+    '/api/stream',
+    { preHandler: [requireScope('read-data'), requireConnectionSlot] },
+    async (request, reply) => {
+      const ids = [...new Set((request.query.sources ?? '').split(',').map((id) => id.trim()).filter(Boolean))];
+      if (!ids.length) {
+        reply.code(400);
+        return { message: 'Provide at least one source id in ?sources=' };
+      }
+      const forbidden = ids.filter((id) => !canAccessSource(request, id));
+      if (forbidden.length) {
+        reply.code(403);
+        return { message: `API key may not access sources: ${forbidden.join(', ')}` };
+      }
+      const unknown = unknownSources(ids);
+      if (unknown.length) {
+        reply.code(404);
+        return { message: `Unknown or disabled sources: ${unknown.join(', ')}` };
+      }
+      await openStream(request, reply, ids);
+    }
+  );
+}
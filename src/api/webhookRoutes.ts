@@ -0,0 +1,92 @@
+import { randomBytes } from 'crypto';
+import { FastifyInstance } from 'fastify';
+import { PrismaClient, Webhook, WebhookDeliveryStatus } from '@prisma/client';
+import { z } from 'zod';
+import { formatZodError, webhookEventSchema } from '../config';
+import { requireAdmin } from './auth';
+
+const createWebhookSchema = z.object({
+  url: z.string().url(),
+  events: z.array(webhookEventSchema).min(1).default(['source_data:new', 'crawl:error']),
+  sourceIds: z.array(z.string()).min(1).optional(),
+  secret: z.string().min(16).optional()
+});
+
+const serializeWebhook = (webhook: Webhook) => {
+  const { secret: _secret, ...rest } = webhook;
+  return rest;
+};
+
+export function registerWebhookRoutes(fastify: FastifyInstance, prisma: PrismaClient) {
+  fastify.get('/api/webhooks', { preHandler: requireAdmin }, async () => {
+    const webhooks = await prisma.webhook.findMany({ orderBy: { createdAt: 'asc' } });
+    return { webhooks: webhooks.map(serializeWebhook) };
+  });
+
+  // The secret is returned only once, in the creation response.
+  fastify.post('/api/webhooks', { preHandler: requireAdmin }, async (request, reply) => {
+    const parsed = createWebhookSchema.safeParse(request.body);
+    if (!parsed.success) {
+      reply.code(400);
+      return { message: formatZodError(parsed.error) };
+    }
+
+    const secret = parsed.data.secret ?? randomBytes(32).toString('hex');
+    const webhook = await prisma.webhook.create({
+      data: {
+        url: parsed.data.url,
+        events: parsed.data.events,
+        sourceIds: parsed.data.sourceIds,
+        secret,
+        origin: 'api'
+      }
+    });
+    reply.code(201);
+    return { webhook: serializeWebhook(webhook), secret };
+  });
+
+  fastify.delete<{ Params: { id: string } }>(
+    '/api/webhooks/:id',
+    { preHandler: requireAdmin },
+    async (request, reply) => {
+      const webhook = await prisma.webhook.findUnique({ where: { id: request.params.id } });
+      if (!webhook) {
+        reply.code(404);
+        return { message: 'Webhook not found' };
+      }
+      if (webhook.origin !== 'api') {
+        reply.code(409);
+        return { message: 'Webhooks declared in source configs are removed by editing the YAML' };
+      }
+      await prisma.webhook.delete({ where: { id: webhook.id } });
+      reply.code(204);
+      return null;
+    }
+  );
+
+  fastify.get<{ Params: { id: string }; Querystring: { status?: string; limit?: string } }>(
+    '/api/webhooks/:id/deliveries',
+    { preHandler: requireAdmin },
+    async (request, reply) => {
+      const webhook = await prisma.webhook.findUnique({ where: { id: request.params.id } });
+      if (!webhook) {
+        reply.code(404);
+        return { message: 'Webhook not found' };
+      }
+
+      const status = request.query.status?.toUpperCase();
+      if (status && !(status in WebhookDeliveryStatus)) {
+        reply.code(400);
+        return { message: `status must be one of ${Object.keys(WebhookDeliveryStatus).join(', ')}` };
+      }
+      const limit = Math.min(Math.max(Number(request.query.limit ?? 50) || 50, 1), 500);
+
+      const deliveries = await prisma.webhookDelivery.findMany({
+        where: { webhookId: webhook.id, ...(status ? { status: status as WebhookDeliveryStatus } : {}) },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      });
+      return { webhook: serializeWebhook(webhook), deliveries };
+    }
+  );
+}
@@ -0,0 +1,132 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKey, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+export const API_SCOPES = ['read-data', 'read-config', 'admin', 'preview'] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = Number(process.env.API_RATE_LIMIT_PER_MINUTE ?? 600);
+export const DEFAULT_MAX_CONNECTIONS = Number(process.env.API_MAX_CONNECTIONS ?? 10);
+
+const AUTH_CACHE_TTL_MS = 30_000;
+const LAST_USED_INTERVAL_MS = 60_000;
+
+export const mintApiKeySchema = z.object({
+  name: z.string().min(1),
+  scopes: z.array(z.enum(API_SCOPES)).min(1),
+  sourceIds: z.array(z.string().min(1)).min(1).optional(),
+  rateLimitPerMinute: z.number().int().positive().optional(),
+  maxConnections: z.number().int().positive().optional()
+});
+
+export type MintApiKeyInput = z.infer<typeof mintApiKeySchema>;
+
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  // null grants every source.
+  sourceIds: string[] | null;
+  // null disables the limit (used for ADMIN_TOKEN).
+  rateLimitPerMinute: number | null;
+  maxConnections: number | null;
+}
+
+function tokensMatch(provided: string, expected: string) {
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  return providedBuffer.length === expectedBuffer.length && timingSafeEqual(providedBuffer, expectedBuffer);
+}
+
+export function hashApiKey(key: string) {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function serializeApiKey(record: ApiKey) {
+  const { keyHash: _hash, ...rest } = record;
+  return rest;
+}
+
+function toPrincipal(record: ApiKey): ApiKeyPrincipal {
+  return {
+    id: record.id,
+    name: record.name,
+    scopes: record.scopes as ApiScope[],
+    sourceIds: (record.sourceIds as string[] | null) ?? null,
+    rateLimitPerMinute: record.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+    maxConnections: record.maxConnections ?? DEFAULT_MAX_CONNECTIONS
+  };
+}
+
+export async function mintApiKey(prisma: PrismaClient, input: MintApiKeyInput) {
+  const prefix = randomBytes(4).toString('hex');
+  const key = `cdr_${prefix}_${randomBytes(24).toString('hex')}`;
+  const record = await prisma.apiKey.create({
+    data: {
+      name: input.name,
+      prefix,
+      keyHash: hashApiKey(key),
+      scopes: input.scopes,
+      sourceIds: input.sourceIds,
+      rateLimitPerMinute: input.rateLimitPerMinute,
+      maxConnections: input.maxConnections
+    }
+  });
+  return { key, record };
+}
+
+export async function revokeApiKey(prisma: PrismaClient, id: string) {
+  const record = await prisma.apiKey.findUnique({ where: { id } });
+  if (!record) return null;
+  if (record.revokedAt) return record;
+  return prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+}
+
+// Resolves presented keys to principals. Lookups are cached briefly so authenticated traffic does
+// not hit the database on every request; `invalidate` makes revocations take effect immediately.
+export class ApiKeyStore {
+  private cache = new Map<string, { principal: ApiKeyPrincipal | null; expiresAt: number }>();
+  private lastUsedWrites = new Map<string, number>();
+
+  constructor(private prisma: PrismaClient) {}
+
+  async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const adminToken = process.env.ADMIN_TOKEN;
+    if (adminToken && tokensMatch(key, adminToken)) {
+      return {
+        id: 'admin-token',
+        name: 'ADMIN_TOKEN',
+        scopes: [...API_SCOPES],
+        sourceIds: null,
+        rateLimitPerMinute: null,
+        maxConnections: null
+      };
+    }
+
+    const keyHash = hashApiKey(key);
+    const cached = this.cache.get(keyHash);
+    if (cached && cached.expiresAt > Date.now()) {
+      if (cached.principal) this.touch(cached.principal.id);
+      return cached.principal;
+    }
+
+    const record = await this.prisma.apiKey.findUnique({ where: { keyHash } });
+    const principal = record && !record.revokedAt ? toPrincipal(record) : null;
+    this.cache.set(keyHash, { principal, expiresAt: Date.now() + AUTH_CACHE_TTL_MS });
+    if (principal) this.touch(principal.id);
+    return principal;
+  }
+
+  invalidate() {
+    this.cache.clear();
+  }
+
+  private touch(id: string) {
+    const now = Date.now();
+    if (now - (this.lastUsedWrites.get(id) ?? 0) < LAST_USED_INTERVAL_MS) return;
+    this.lastUsedWrites.set(id, now);
+    this.prisma.apiKey.update({ where: { id }, data: { lastUsedAt: new Date(now) } }).catch((error) => {
+      console.error(`[auth] failed to record use of key ${id}`, error);
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { ApiKeyPrincipal } from './apiKeys';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Token bucket per key: a key may burst up to its per-minute limit, refilled continuously.
+export class RequestRateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  // Returns null when the request may proceed, otherwise the seconds until a token is available.
+  take(principal: ApiKeyPrincipal, now = Date.now()): number | null {
+    const limit = principal.rateLimitPerMinute;
+    if (limit === null) return null;
+
+    const perMs = limit / 60_000;
+    const bucket = this.buckets.get(principal.id) ?? { tokens: limit, updatedAt: now };
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+    this.buckets.set(principal.id, bucket);
+
+    if (bucket.tokens < 1) {
+      return Math.ceil((1 - bucket.tokens) / perMs / 1000);
+    }
+    bucket.tokens -= 1;
+    return null;
+  }
+}
+
+// Counts open WebSocket and SSE connections per key.
+export class ConnectionLimiter {
+  private open = new Map<string, number>();
+
+  // Returns a release callback, or null when the key is at its connection limit.
+  acquire(principal: ApiKeyPrincipal): (() => void) | null {
+    const current = this.open.get(principal.id) ?? 0;
+    if (principal.maxConnections !== null && current >= principal.maxConnections) {
+      return null;
+    }
+    this.open.set(principal.id, current + 1);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = (this.open.get(principal.id) ?? 1) - 1;
+      if (remaining > 0) {
+        this.open.set(principal.id, remaining);
+      } else {
+        this.open.delete(principal.id);
+      }
+    };
+  }
+}
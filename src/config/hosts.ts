@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { MIN_CRAWL_INTERVAL_MS } from '../shared/constants';
+import { formatZodError } from './index';
+
+const hostLimitsSchema = z.object({
+  minIntervalMs: z.number().int().nonnegative().optional(),
+  maxConcurrency: z.number().int().positive().optional(),
+  robotsTxt: z.boolean().optional()
+});
+
+const hostsConfigSchema = z.object({
+  defaults: hostLimitsSchema.default({}),
+  hosts: z.record(hostLimitsSchema).default({})
+});
+
+export type HostLimitsConfig = z.infer<typeof hostLimitsSchema>;
+
+export interface HostLimits {
+  minIntervalMs: number;
+  maxConcurrency: number;
+  robotsTxt: boolean;
+}
+
+export interface HostPolicies {
+  defaults: HostLimits;
+  hosts: Record<string, HostLimitsConfig>;
+}
+
+const BUILT_IN_LIMITS: HostLimits = {
+  minIntervalMs: MIN_CRAWL_INTERVAL_MS,
+  maxConcurrency: 1,
+  robotsTxt: false
+};
+
+export const DEFAULT_HOST_POLICIES: HostPolicies = { defaults: BUILT_IN_LIMITS, hosts: {} };
+
+export const DEFAULT_HOSTS_CONFIG = process.env.HOSTS_CONFIG ?? path.join(process.cwd(), 'hosts.yaml');
+
+// Host keys are matched case-insensitively against the hostname of each source URL.
+export function limitsForHost(policies: HostPolicies, host: string): HostLimits {
+  return { ...policies.defaults, ...policies.hosts[host.toLowerCase()] };
+}
+
+export async function loadHostPolicies(filePath = DEFAULT_HOSTS_CONFIG): Promise<HostPolicies> {
+  let contents: string;
+  try {
+    contents = await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return DEFAULT_HOST_POLICIES;
+    }
+    throw error;
+  }
+
+  const parsed = hostsConfigSchema.safeParse(YAML.parse(contents) ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid host config at ${filePath}: ${formatZodError(parsed.error)}`);
+  }
+
+  const hosts = Object.fromEntries(
+    Object.entries(parsed.data.hosts).map(([host, limits]) => [host.toLowerCase(), limits])
+  );
+  console.info(`[config] loaded limits for ${Object.keys(hosts).length} host(s) from ${path.basename(filePath)}`);
+  return { defaults: { ...BUILT_IN_LIMITS, ...parsed.data.defaults }, hosts };
+}
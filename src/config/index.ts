@@ -3,7 +3,10 @@ import path from 'path';
 import YAML from 'yaml';
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
-import { MIN_CRAWL_INTERVAL_MS } from '../shared/constants';
+import { RETENTION_WINDOW_MS } from '../shared/constants';
+import { SECRET_ENV_PREFIX, isSecretEnvName } from '../shared/secrets';
+import { ParseStepError, applyParseStep, parseStepSchema } from './parseSteps';
+import { ResolvedSchedule, resolveSchedule, scheduleSchema } from './schedule';
 
 const browserTimeoutSchema = z.object({
   navigationMs: z.number().int().positive().default(30000),
@@ -16,73 +19,402 @@ const viewportSchema = z.object({
 });
 
 const browserSchema = z.object({
+  engine: z.enum(['chromium', 'firefox', 'webkit']).default('chromium'),
   headless: z.boolean().default(true),
+  args: z.array(z.string()).default([]),
   userAgent: z.string().min(1).optional(),
   viewport: viewportSchema.default({ width: 1280, height: 720 }),
   timeouts: browserTimeoutSchema.default({ navigationMs: 30000, actionMs: 10000 })
 });
 
-const scheduleSchema = z.object({
-  intervalMs: z.number().int().positive(),
-  jitterMs: z.number().int().nonnegative().default(0),
-  backoffMultiplier: z.number().positive().default(2),
-  maxBackoffMs: z.number().int().positive().default(3_600_000),
-  failureLimit: z.number().int().positive().default(5)
+const selectorTargetSchema = z.object({
+  css: z.string().min(1).optional(),
+  xpath: z.string().min(1).optional(),
+  jsonPath: z.string().min(1).optional(),
+  attribute: z.string().min(1).optional()
 });
 
-const selectorSchema = z
+const hasSelectorTarget = (value: z.infer<typeof selectorTargetSchema>) => Boolean(value.css || value.xpath || value.jsonPath);
+
+const selectorCandidateSchema = selectorTargetSchema.refine(hasSelectorTarget, {
+  message: 'Provide css, xpath or jsonPath for a selector'
+});
+
+// `fallbacks` are tried in order when the primary selector matches nothing.
+const selectorSchema = selectorTargetSchema
+  .extend({ fallbacks: z.array(selectorCandidateSchema).default([]) })
+  .refine(hasSelectorTarget, {
+    message: 'Provide css, xpath or jsonPath for a selector'
+  });
+
+const selectorsSchema = z.record(selectorSchema);
+
+const listSchema = z
   .object({
     css: z.string().min(1).optional(),
     xpath: z.string().min(1).optional(),
-    attribute: z.string().min(1).optional()
+    jsonPath: z.string().min(1).optional(),
+    mode: z.enum(['rows', 'array']).default('rows'),
+    maxItems: z.number().int().positive().optional()
   })
-  .refine((value) => value.css || value.xpath, { message: 'Provide either css or xpath for a selector' });
+  .refine((value) => value.css || value.xpath || value.jsonPath, {
+    message: 'Provide css, xpath or jsonPath for a list container'
+  });
 
-const selectorsSchema = z.record(selectorSchema);
+const httpRequestSchema = z.object({
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('GET'),
+  headers: z.record(z.string()).default({}),
+  body: z.union([z.string(), z.record(z.unknown()), z.array(z.unknown())]).optional(),
+  format: z.enum(['json', 'xml']).default('json'),
+  timeoutMs: z.number().int().positive().default(30000)
+});
+
+const secretEnvName = z
+  .string()
+  .refine(isSecretEnvName, { message: `Secret environment variables must be named ${SECRET_ENV_PREFIX}*` });
+
+const actionTargetShape = {
+  css: z.string().min(1).optional(),
+  xpath: z.string().min(1).optional()
+};
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('click'), ...actionTargetShape }),
+  z.object({
+    type: z.literal('fill'),
+    ...actionTargetShape,
+    value: z.string().optional(),
+    valueEnv: secretEnvName.optional()
+  }),
+  z.object({ type: z.literal('select'), ...actionTargetShape, value: z.union([z.string(), z.array(z.string())]) }),
+  z.object({ type: z.literal('press'), ...actionTargetShape, key: z.string().min(1) }),
+  z.object({
+    type: z.literal('scroll'),
+    ...actionTargetShape,
+    times: z.number().int().positive().default(1),
+    delayMs: z.number().int().nonnegative().default(500)
+  }),
+  z.object({
+    type: z.literal('waitForSelector'),
+    ...actionTargetShape,
+    state: z.enum(['attached', 'detached', 'visible', 'hidden']).default('visible')
+  }),
+  z.object({ type: z.literal('waitForTimeout'), ms: z.number().int().positive() }),
+  z.object({ type: z.literal('waitForText'), ...actionTargetShape, text: z.string().min(1) })
+]);
+
+const actionsSchema = z.array(actionSchema).superRefine((actions, ctx) => {
+  actions.forEach((action, index) => {
+    const needsTarget = ['click', 'fill', 'select', 'waitForSelector'].includes(action.type);
+    if (needsTarget && !('css' in action && action.css) && !('xpath' in action && action.xpath)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index],
+        message: `Provide either css or xpath for a ${action.type} action`
+      });
+    }
+    if (action.type === 'fill' && (action.value === undefined) === (action.valueEnv === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index],
+        message: 'Provide either value or valueEnv for a fill action'
+      });
+    }
+  });
+});
+
+// Secret values are referenced by environment variable name (`valueEnv`, `headersEnv`) so they
+// never appear in YAML, the API or `Source.config`.
+const authCookieSchema = z
+  .object({
+    name: z.string().min(1),
+    value: z.string().optional(),
+    valueEnv: secretEnvName.optional(),
+    domain: z.string().min(1).optional(),
+    path: z.string().default('/'),
+    secure: z.boolean().optional(),
+    httpOnly: z.boolean().optional()
+  })
+  .refine((cookie) => (cookie.value === undefined) !== (cookie.valueEnv === undefined), {
+    message: 'Provide either value or valueEnv for a cookie'
+  });
+
+const sessionCheckSchema = z.object({
+  loggedInSelector: z.object(actionTargetShape).optional(),
+  loggedOutSelector: z.object(actionTargetShape).optional(),
+  loginUrlPattern: z.string().min(1).optional()
+});
+
+const authSchema = z.object({
+  loginUrl: z.string().url().optional(),
+  steps: actionsSchema.default([]),
+  cookies: z.array(authCookieSchema).default([]),
+  headers: z.record(z.string()).default({}),
+  headersEnv: z.record(secretEnvName).default({}),
+  sessionCheck: sessionCheckSchema.default({}),
+  persistSession: z.boolean().default(true)
+});
 
 const parseRuleSchema = z.object({
   field: z.string(),
   targetField: z.string().optional(),
-  type: z.enum(['string', 'int', 'float', 'datetime', 'number', 'json']).default('string'),
+  type: z.enum(['string', 'int', 'float', 'datetime', 'number', 'boolean', 'json']).default('string'),
   regex: z.string().optional(),
-  unit: z.string().optional()
+  unit: z.string().optional(),
+  steps: z.array(parseStepSchema).default([])
+});
+
+const changeDetectionSchema = z
+  .object({
+    mode: z.enum(['always', 'any', 'fields']).default('always'),
+    fields: z.array(z.string()).default([]),
+    tolerance: z.number().nonnegative().default(0)
+  })
+  .refine((value) => value.mode !== 'fields' || value.fields.length > 0, {
+    message: 'List at least one field when changeDetection.mode is "fields"'
+  });
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+// Milliseconds, or a number with a unit such as `10m`, `4h` or `7d`.
+const durationSchema = z.union([z.number().int().positive(), z.string()]).transform((value, ctx) => {
+  if (typeof value === 'number') return value;
+  const match = value.match(/^([1-9]\d*)(ms|s|m|h|d|w)$/);
+  if (!match) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected a duration such as 10m, 4h or 7d' });
+    return z.NEVER;
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+});
+
+// `maxAgeMs` is the older spelling of `maxAge`; both resolve to `maxAgeMs`.
+const retentionSchema = z
+  .object({
+    maxAge: durationSchema.optional(),
+    maxAgeMs: z.number().int().positive().optional(),
+    maxRows: z.number().int().positive().optional(),
+    archive: z.boolean().default(false)
+  })
+  .refine((value) => value.maxAge === undefined || value.maxAgeMs === undefined, {
+    message: 'Set either maxAge or maxAgeMs, not both'
+  })
+  .transform(({ maxAge, maxAgeMs, ...rest }) => ({ ...rest, maxAgeMs: maxAge ?? maxAgeMs ?? RETENTION_WINDOW_MS }));
+
+// Artifacts are captured for failed runs and, with `everyNRuns`, for every Nth run as well.
+const debugSchema = z.object({
+  onFailure: z.boolean().default(true),
+  everyNRuns: z.number().int().positive().optional(),
+  screenshot: z.boolean().default(true),
+  dom: z.boolean().default(true),
+  console: z.boolean().default(true),
+  trace: z.boolean().default(true)
+});
+
+const alertBaseSchema = z.object({
+  id: z.string().min(1),
+  severity: z.enum(['info', 'warning', 'critical']).default('warning'),
+  message: z.string().optional()
+});
+
+// Rules are evaluated against every validated payload, except `stale`, which is checked on a timer.
+const alertRuleSchema = z.discriminatedUnion('type', [
+  alertBaseSchema.extend({
+    type: z.literal('threshold'),
+    field: z.string(),
+    op: z.enum(['gt', 'gte', 'lt', 'lte', 'eq', 'neq']),
+    value: z.union([z.number(), z.string(), z.boolean()])
+  }),
+  alertBaseSchema.extend({
+    type: z.literal('change'),
+    field: z.string(),
+    percent: z.number().positive(),
+    direction: z.enum(['up', 'down', 'any']).default('any')
+  }),
+  alertBaseSchema.extend({
+    type: z.literal('match'),
+    field: z.string(),
+    pattern: z.string().min(1),
+    negate: z.boolean().default(false)
+  }),
+  alertBaseSchema.extend({ type: z.literal('stale'), minutes: z.number().positive() })
+]);
+
+const webhookEventSchema = z.enum(['source_data:new', 'crawl:error']);
+
+const sourceWebhookSchema = z.object({
+  url: z.string().url(),
+  events: z.array(webhookEventSchema).min(1).default(['source_data:new', 'crawl:error']),
+  secretEnv: z.string().min(1)
 });
 
 const outputFieldTypeSchema = z.enum(['string', 'int', 'float', 'number', 'boolean', 'datetime', 'json']);
 
-export const sourceSchema = z.object({
+// `price: float` is shorthand for `{ type: float, required: true, nullable: false }`.
+const outputFieldSchema = z.union([
+  outputFieldTypeSchema,
+  z.object({
+    type: outputFieldTypeSchema,
+    required: z.boolean().default(true),
+    default: z.any().optional(),
+    nullable: z.boolean().default(false)
+  })
+]);
+
+const sourceObjectSchema = z.object({
   id: z.string(),
   name: z.string(),
   url: z.string().url(),
   description: z.string().optional(),
+  kind: z.enum(['browser', 'http']).default('browser'),
+  request: httpRequestSchema.default({}),
   allowedToScrape: z.boolean().default(false),
   enabled: z.boolean().default(true),
   browser: browserSchema.default({
+    engine: 'chromium',
     headless: true,
+    args: [],
     viewport: { width: 1280, height: 720 },
     timeouts: { navigationMs: 30000, actionMs: 10000 }
   }),
   schedule: scheduleSchema,
   selectors: selectorsSchema,
+  list: listSchema.optional(),
+  actions: actionsSchema.optional().default([]),
   parse: z.array(parseRuleSchema).optional().default([]),
-  outputSchema: z.record(outputFieldTypeSchema)
+  outputSchema: z.record(outputFieldSchema),
+  changeDetection: changeDetectionSchema.default({}),
+  webhooks: z.array(sourceWebhookSchema).default([]),
+  retention: retentionSchema.default({}),
+  auth: authSchema.optional(),
+  debug: debugSchema.optional(),
+  alerts: z.array(alertRuleSchema).default([])
 });
 
+// Browser sources address the DOM with css/xpath; http sources address the response body with
+// jsonPath (json) or xpath (xml).
+function validateSourceKind(config: z.infer<typeof sourceObjectSchema>, ctx: z.RefinementCtx) {
+  const targets: Array<{ path: Array<string | number>; target: { css?: string; xpath?: string; jsonPath?: string } }> =
+    Object.entries(config.selectors).flatMap(([field, target]) => [
+      { path: ['selectors', field], target },
+      ...target.fallbacks.map((fallback, index) => ({ path: ['selectors', field, 'fallbacks', index], target: fallback }))
+    ]);
+  if (config.list) {
+    targets.push({ path: ['list'], target: config.list });
+  }
+
+  for (const { path, target } of targets) {
+    if (config.kind === 'browser' && !target.css && !target.xpath) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: 'Browser sources require css or xpath' });
+    }
+    if (config.kind === 'http' && config.request.format === 'json' && !target.jsonPath) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: 'JSON http sources require jsonPath' });
+    }
+    if (config.kind === 'http' && config.request.format === 'xml' && !target.xpath) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: 'XML http sources require xpath' });
+    }
+  }
+
+  if (config.kind === 'http' && config.actions.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['actions'], message: 'Actions require a browser source' });
+  }
+  if (config.kind === 'http' && config.auth?.steps.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['auth', 'steps'], message: 'Login steps require a browser source' });
+  }
+  if (config.kind === 'http' && config.debug) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['debug'], message: 'Debug artifacts require a browser source' });
+  }
+}
+
+function validateChangeDetection(config: z.infer<typeof sourceObjectSchema>, ctx: z.RefinementCtx) {
+  for (const field of config.changeDetection.fields) {
+    if (!(field in config.outputSchema)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['changeDetection', 'fields'],
+        message: `Field "${field}" is not declared in outputSchema`
+      });
+    }
+  }
+}
+
+function validateAlerts(config: z.infer<typeof sourceObjectSchema>, ctx: z.RefinementCtx) {
+  const seen = new Set<string>();
+  config.alerts.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['alerts', index, 'id'],
+        message: `Duplicate alert id "${rule.id}"`
+      });
+    }
+    seen.add(rule.id);
+    if (rule.type !== 'stale' && !(rule.field in config.outputSchema)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['alerts', index, 'field'],
+        message: `Field "${rule.field}" is not declared in outputSchema`
+      });
+    }
+    if (rule.type === 'match') {
+      try {
+        new RegExp(rule.pattern);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['alerts', index, 'pattern'],
+          message: 'Invalid regular expression'
+        });
+      }
+    }
+    if (rule.type === 'change' && config.list) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['alerts', index, 'type'],
+        message: 'Change alerts require a single-record source'
+      });
+    }
+  });
+}
+
+export const sourceSchema = sourceObjectSchema
+  .superRefine(validateSourceKind)
+  .superRefine(validateChangeDetection)
+  .superRefine(validateAlerts);
+
 export type SourceConfig = z.infer<typeof sourceSchema>;
 export type SelectorConfig = z.infer<typeof selectorsSchema>;
+export type ListConfig = z.infer<typeof listSchema>;
+export type ActionConfig = z.infer<typeof actionSchema>;
+export type HttpRequestConfig = z.infer<typeof httpRequestSchema>;
+export type ChangeDetectionConfig = z.infer<typeof changeDetectionSchema>;
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type RetentionConfig = z.infer<typeof retentionSchema>;
+export type BrowserConfig = z.infer<typeof browserSchema>;
+export type AuthConfig = z.infer<typeof authSchema>;
+export type DebugConfig = z.infer<typeof debugSchema>;
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+export type OutputFieldConfig = z.infer<typeof outputFieldSchema>;
+
+export interface ResolvedOutputField {
+  type: z.infer<typeof outputFieldTypeSchema>;
+  required: boolean;
+  default?: unknown;
+  nullable: boolean;
+}
+
+export type SelectorCandidate = z.infer<typeof selectorTargetSchema>;
 
 export interface ResolvedSelector extends z.infer<typeof selectorSchema> {
   field: string;
-}
-
-export interface ResolvedSchedule extends z.infer<typeof scheduleSchema> {
-  effectiveIntervalMs: number;
+  // The primary selector followed by its fallbacks; fallbacks inherit the primary `attribute`.
+  candidates: SelectorCandidate[];
 }
 
 export interface ResolvedSourceConfig extends Omit<SourceConfig, 'selectors' | 'schedule'> {
   selectors: SelectorConfig;
   selectorList: ResolvedSelector[];
   schedule: ResolvedSchedule;
+  outputFields: Record<string, ResolvedOutputField>;
   outputParser: z.ZodObject<Record<string, z.ZodTypeAny>>;
   enabled: boolean;
 }
@@ -106,31 +438,49 @@ const typeToSchema: Record<string, () => z.ZodTypeAny> = {
   json: () => z.any()
 };
 
-function buildOutputParser(outputSchema: SourceConfig['outputSchema']) {
+function resolveOutputFields(outputSchema: SourceConfig['outputSchema']) {
+  const fields: Record<string, ResolvedOutputField> = {};
+  Object.entries(outputSchema).forEach(([key, spec]) => {
+    fields[key] = typeof spec === 'string' ? { type: spec, required: true, nullable: false } : spec;
+  });
+  return fields;
+}
+
+// Missing values fall back to `default`; optional and nullable fields accept null so a failed
+// optional selector does not invalidate the whole record.
+function buildOutputParser(outputFields: Record<string, ResolvedOutputField>) {
   const shape: Record<string, z.ZodTypeAny> = {};
-  Object.entries(outputSchema).forEach(([key, typeName]) => {
-    const factory = typeToSchema[typeName];
+  Object.entries(outputFields).forEach(([key, field]) => {
+    const factory = typeToSchema[field.type];
     if (!factory) {
-      throw new Error(`Unsupported output type "${typeName}" for field ${key}`);
+      throw new Error(`Unsupported output type "${field.type}" for field ${key}`);
     }
-    shape[key] = factory();
+    let schema = factory();
+    if (field.nullable || !field.required) {
+      schema = schema.nullable();
+    }
+    if (field.default !== undefined) {
+      schema = z.preprocess((value) => value ?? field.default, schema);
+    }
+    shape[key] = schema;
   });
   return z.object(shape);
 }
 
 export function resolveSourceConfig(baseConfig: SourceConfig): ResolvedSourceConfig {
-  const effectiveIntervalMs = Math.max(MIN_CRAWL_INTERVAL_MS, baseConfig.schedule.intervalMs);
-  const schedule: ResolvedSchedule = {
-    ...baseConfig.schedule,
-    effectiveIntervalMs
-  };
-
-  const selectorList: ResolvedSelector[] = Object.entries(baseConfig.selectors).map(([field, selector]) => ({
-    field,
-    ...selector
-  }));
+  const schedule = resolveSchedule(baseConfig.schedule);
+
+  const selectorList: ResolvedSelector[] = Object.entries(baseConfig.selectors).map(([field, selector]) => {
+    const { fallbacks, ...primary } = selector;
+    return {
+      field,
+      ...selector,
+      candidates: [primary, ...fallbacks.map((fallback) => ({ attribute: primary.attribute, ...fallback }))]
+    };
+  });
 
-  const outputParser = buildOutputParser(baseConfig.outputSchema);
+  const outputFields = resolveOutputFields(baseConfig.outputSchema);
+  const outputParser = buildOutputParser(outputFields);
   const resolvedEnabled = baseConfig.allowedToScrape && baseConfig.enabled;
 
   return {
@@ -138,10 +488,15 @@ export function resolveSourceConfig(baseConfig: SourceConfig): ResolvedSourceCon
     enabled: resolvedEnabled,
     selectorList,
     schedule,
+    outputFields,
     outputParser
   };
 }
 
+const BOOLEAN_CAST = parseStepSchema.parse({ type: 'boolean' });
+
+// Legacy `unit`/`regex` run first, then `steps` in order, then the `type` cast. Failing steps and
+// casts that cannot convert the value throw instead of passing the unconverted value through.
 function applyParseRule(value: unknown, rule: z.infer<typeof parseRuleSchema>) {
   if (value == null) return value;
   let parsedValue: unknown = value;
@@ -161,15 +516,40 @@ function applyParseRule(value: unknown, rule: z.infer<typeof parseRuleSchema>) {
     }
   }
 
+  for (const [index, step] of rule.steps.entries()) {
+    try {
+      parsedValue = applyParseStep(parsedValue, step);
+    } catch (error) {
+      const message = error instanceof ParseStepError ? error.message : String(error);
+      throw new ParseStepError(`step ${index + 1} (${step.type}) failed: ${message}`);
+    }
+  }
+
+  const invalid = (expected: string) =>
+    new ParseStepError(`cast to ${expected} failed: ${JSON.stringify(parsedValue)} is not a valid ${expected}`);
+
   switch (rule.type) {
     case 'float':
-    case 'number':
-      return Number.parseFloat(String(parsedValue));
-    case 'int':
-      return Number.parseInt(String(parsedValue), 10);
+    case 'number': {
+      const numberValue = Number.parseFloat(String(parsedValue));
+      if (Number.isNaN(numberValue)) throw invalid(rule.type);
+      return numberValue;
+    }
+    case 'int': {
+      const intValue = Number.parseInt(String(parsedValue), 10);
+      if (Number.isNaN(intValue)) throw invalid('int');
+      return intValue;
+    }
+    case 'boolean':
+      try {
+        return applyParseStep(parsedValue, BOOLEAN_CAST);
+      } catch (error) {
+        throw invalid('boolean');
+      }
     case 'datetime': {
       const dateValue = parsedValue instanceof Date ? parsedValue : new Date(String(parsedValue));
-      return Number.isNaN(dateValue.getTime()) ? parsedValue : dateValue;
+      if (Number.isNaN(dateValue.getTime())) throw invalid('datetime');
+      return dateValue;
     }
     case 'json': {
       if (typeof parsedValue !== 'string') return parsedValue;
@@ -190,7 +570,7 @@ function formatZodError(error: z.ZodError) {
     .join('; ');
 }
 
-async function collectYamlFiles(directory: string): Promise<string[]> {
+export async function collectYamlFiles(directory: string): Promise<string[]> {
   const entries = await fs.promises.readdir(directory, { withFileTypes: true });
   const files = await Promise.all(
     entries.map(async (entry) => {
@@ -208,27 +588,35 @@ async function collectYamlFiles(directory: string): Promise<string[]> {
   return files.flat();
 }
 
-export async function loadSourceConfigs(
-  sourcesDir = path.join(process.cwd(), 'sources')
-): Promise<ResolvedSourceConfig[]> {
+export const DEFAULT_SOURCES_DIR = path.join(process.cwd(), 'sources');
+
+export interface SourceFileEntry {
+  filePath: string;
+  config: ResolvedSourceConfig;
+}
+
+export async function loadSourceFile(filePath: string): Promise<ResolvedSourceConfig> {
+  const contents = await fs.promises.readFile(filePath, 'utf8');
+  const parsedYaml = YAML.parse(contents) ?? {};
+  const parsed = sourceSchema.safeParse(parsedYaml);
+
+  if (!parsed.success) {
+    throw new Error(`Invalid source config at ${filePath}: ${formatZodError(parsed.error)}`);
+  }
+
+  const baseConfig = parsed.data;
+  const resolved = resolveSourceConfig(baseConfig);
+  console.info(`[config] loaded source ${baseConfig.id} from ${path.basename(filePath)}`);
+  return resolved;
+}
+
+export async function loadSourceFiles(sourcesDir = DEFAULT_SOURCES_DIR): Promise<SourceFileEntry[]> {
   const files = await collectYamlFiles(sourcesDir);
 
-  const configs: ResolvedSourceConfig[] = [];
+  const entries: SourceFileEntry[] = [];
   for (const filePath of files) {
     try {
-      const contents = await fs.promises.readFile(filePath, 'utf8');
-      const parsedYaml = YAML.parse(contents) ?? {};
-      const parsed = sourceSchema.safeParse(parsedYaml);
-
-      if (!parsed.success) {
-        console.error(`[config] Validation failed for ${filePath}: ${formatZodError(parsed.error)}`);
-        throw new Error(`Invalid source config at ${filePath}`);
-      }
-
-      const baseConfig = parsed.data;
-      const resolved = resolveSourceConfig(baseConfig);
-      configs.push(resolved);
-      console.info(`[config] loaded source ${baseConfig.id} from ${path.basename(filePath)}`);
+      entries.push({ filePath, config: await loadSourceFile(filePath) });
     } catch (error) {
       console.error(
         `[config] Failed to load config from ${filePath}:`,
@@ -238,22 +626,69 @@ export async function loadSourceConfigs(
     }
   }
 
-  return configs;
+  return entries;
 }
 
+export async function loadSourceConfigs(sourcesDir = DEFAULT_SOURCES_DIR): Promise<ResolvedSourceConfig[]> {
+  const entries = await loadSourceFiles(sourcesDir);
+  return entries.map((entry) => entry.config);
+}
+
+// A failing rule records an error against its target field (and any rule reading that field later)
+// so validation can treat the field as invalid rather than falling back to the raw value.
 export function applyParsers(raw: Record<string, unknown>, rules: SourceConfig['parse'] = []) {
   const parsed: Record<string, unknown> = { ...raw };
+  const errors: Record<string, string> = {};
   for (const rule of rules) {
-    const value = parsed[rule.field];
     const target = rule.targetField ?? rule.field;
-    parsed[target] = applyParseRule(value, rule);
+    if (errors[rule.field]) {
+      errors[target] = errors[rule.field];
+      parsed[target] = null;
+      continue;
+    }
+    try {
+      parsed[target] = applyParseRule(parsed[rule.field], rule);
+      delete errors[target];
+    } catch (error) {
+      if (!(error instanceof ParseStepError)) throw error;
+      errors[target] = `parse rule on "${rule.field}": ${error.message}`;
+      parsed[target] = null;
+    }
   }
-  return parsed;
+  return { parsed, errors };
+}
+
+const REDACTED = '[redacted]';
+
+// Secrets are referenced by env var name, but inline auth values are masked too in case a
+// credential was written into YAML anyway.
+export function redactAuth(auth: AuthConfig | undefined): AuthConfig | undefined {
+  if (!auth) return auth;
+  return {
+    ...auth,
+    steps: auth.steps.map((step) => (step.type === 'fill' && step.value !== undefined ? { ...step, value: REDACTED } : step)),
+    cookies: auth.cookies.map((cookie) => (cookie.value !== undefined ? { ...cookie, value: REDACTED } : cookie)),
+    headers: Object.fromEntries(Object.keys(auth.headers).map((name) => [name, REDACTED]))
+  };
+}
+
+// Environment variables a config reads secrets from (form fills, cookies and headers).
+export function secretEnvNames(config: SourceConfig) {
+  const fills = [...config.actions, ...(config.auth?.steps ?? [])].flatMap((action) =>
+    action.type === 'fill' && action.valueEnv ? [action.valueEnv] : []
+  );
+  const cookies = (config.auth?.cookies ?? []).flatMap((cookie) => (cookie.valueEnv ? [cookie.valueEnv] : []));
+  return [...fills, ...cookies, ...Object.values(config.auth?.headersEnv ?? {})];
+}
+
+export function toPersistableConfig(config: ResolvedSourceConfig) {
+  const { outputParser, outputFields, selectorList, ...persistable } = config;
+  return { ...persistable, auth: redactAuth(persistable.auth) };
 }
 
 export async function upsertSources(prisma: PrismaClient, configs: ResolvedSourceConfig[]) {
   for (const config of configs) {
-    const { outputParser, selectorList, ...persistable } = config;
+    const persistable = toPersistableConfig(config);
     await prisma.source.upsert({
       where: { id: config.id },
       update: {
@@ -275,4 +710,19 @@ export async function upsertSources(prisma: PrismaClient, configs: ResolvedSourc
   }
 }
 
-export { browserSchema, scheduleSchema, selectorSchema, parseRuleSchema, formatZodError };
+export {
+  browserSchema,
+  scheduleSchema,
+  ResolvedSchedule,
+  selectorSchema,
+  listSchema,
+  actionSchema,
+  httpRequestSchema,
+  changeDetectionSchema,
+  webhookEventSchema,
+  sourceWebhookSchema,
+  retentionSchema,
+  authSchema,
+  parseRuleSchema,
+  formatZodError
+};
@@ -0,0 +1,393 @@
+import { z } from 'zod';
+
+const isValid = (check: () => unknown) => {
+  try {
+    check();
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+const regexPattern = z.string().min(1).refine((pattern) => isValid(() => new RegExp(pattern)), {
+  message: 'Invalid regular expression'
+});
+const locale = z.string().min(1).refine((value) => isValid(() => new Intl.NumberFormat(value)), {
+  message: 'Unknown locale'
+});
+export const timeZone = z
+  .string()
+  .min(1)
+  .refine((value) => isValid(() => new Intl.DateTimeFormat('en-US', { timeZone: value })), {
+    message: 'Unknown time zone'
+  });
+
+export const parseStepSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('trim') }),
+  z.object({ type: z.literal('lowercase') }),
+  z.object({ type: z.literal('uppercase') }),
+  z.object({
+    type: z.literal('replace'),
+    pattern: regexPattern,
+    replacement: z.string().default(''),
+    flags: z.string().regex(/^[gimsuy]*$/).default('g')
+  }),
+  z.object({ type: z.literal('regex'), pattern: regexPattern, group: z.number().int().nonnegative().default(1) }),
+  z.object({ type: z.literal('split'), separator: z.string().min(1), index: z.number().int() }),
+  z.object({
+    type: z.literal('map'),
+    values: z.record(z.unknown()),
+    default: z.unknown().optional(),
+    caseInsensitive: z.boolean().default(true)
+  }),
+  z.object({
+    type: z.literal('boolean'),
+    true: z.array(z.string()).default(['true', 'yes', 'y', '1', 'on']),
+    false: z.array(z.string()).default(['false', 'no', 'n', '0', 'off'])
+  }),
+  z.object({
+    type: z.literal('enum'),
+    values: z.array(z.string()).min(1),
+    caseInsensitive: z.boolean().default(true)
+  }),
+  z.object({
+    type: z.literal('number'),
+    locale: locale.default('en-US'),
+    decimal: z.string().length(1).optional(),
+    group: z.string().length(1).optional()
+  }),
+  z.object({ type: z.literal('relativeTime') }),
+  z.object({
+    type: z.literal('date'),
+    format: z.string().min(1),
+    timezone: timeZone.default('UTC'),
+    locale: locale.default('en-US')
+  })
+]);
+
+export type ParseStep = z.infer<typeof parseStepSchema>;
+type StepOf<T extends ParseStep['type']> = Extract<ParseStep, { type: T }>;
+
+export class ParseStepError extends Error {}
+
+function asText(value: unknown) {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+const quote = (value: string) => JSON.stringify(value);
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function splitText(text: string, step: StepOf<'split'>) {
+  const parts = text.split(step.separator);
+  const index = step.index < 0 ? parts.length + step.index : step.index;
+  if (index < 0 || index >= parts.length) {
+    throw new ParseStepError(`${quote(text)} has ${parts.length} part(s) when split on ${quote(step.separator)}`);
+  }
+  return parts[index].trim();
+}
+
+function mapValue(text: string, step: StepOf<'map'>) {
+  const wanted = step.caseInsensitive ? text.toLowerCase() : text;
+  const entry = Object.entries(step.values).find(
+    ([key]) => (step.caseInsensitive ? key.toLowerCase() : key) === wanted
+  );
+  if (entry) return entry[1];
+  if (step.default !== undefined) return step.default;
+  throw new ParseStepError(`${quote(text)} has no mapping`);
+}
+
+function toBoolean(text: string, step: StepOf<'boolean'>) {
+  const wanted = text.toLowerCase();
+  if (step.true.some((candidate) => candidate.toLowerCase() === wanted)) return true;
+  if (step.false.some((candidate) => candidate.toLowerCase() === wanted)) return false;
+  throw new ParseStepError(`${quote(text)} is not a recognized boolean`);
+}
+
+function toEnum(text: string, step: StepOf<'enum'>) {
+  const match = step.values.find((candidate) =>
+    step.caseInsensitive ? candidate.toLowerCase() === text.toLowerCase() : candidate === text
+  );
+  if (match === undefined) {
+    throw new ParseStepError(`${quote(text)} is not one of ${step.values.join(', ')}`);
+  }
+  return match;
+}
+
+function numberSeparators(locale: string) {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.'
+  };
+}
+
+// "1.234,56 €" (de-DE) -> 1234.56. Currency symbols and units around the number are dropped; a
+// group separator that is a space also matches ordinary spaces, since scraped text rarely keeps NBSPs.
+function toLocaleNumber(text: string, step: StepOf<'number'>) {
+  const separators = numberSeparators(step.locale);
+  const group = step.group ?? separators.group;
+  const decimal = step.decimal ?? separators.decimal;
+  const groupPattern = /\s/.test(group) ? /\s/g : new RegExp(escapeRegExp(group), 'g');
+
+  const negative = /^\s*[-−(]/.test(text) || /-\s*$/.test(text);
+  const normalized = text
+    .replace(groupPattern, '')
+    .replace(new RegExp(escapeRegExp(decimal), 'g'), '.')
+    .replace(/[^\d.]/g, '');
+  if (!/^\d+(\.\d+)?$/.test(normalized)) {
+    throw new ParseStepError(`${quote(text)} is not a number in locale ${step.locale}`);
+  }
+  return (negative ? -1 : 1) * Number(normalized);
+}
+
+const SECOND = 1000;
+const RELATIVE_UNITS: Array<[RegExp, number]> = [
+  [/^(s|secs?|seconds?)$/, SECOND],
+  [/^(m|mins?|minutes?)$/, 60 * SECOND],
+  [/^(h|hrs?|hours?)$/, 3600 * SECOND],
+  [/^(d|days?)$/, 86_400 * SECOND],
+  [/^(w|wks?|weeks?)$/, 7 * 86_400 * SECOND],
+  [/^(mos?|months?)$/, 30 * 86_400 * SECOND],
+  [/^(y|yrs?|years?)$/, 365 * 86_400 * SECOND]
+];
+
+// "3 hrs ago", "in 2 days", "1 hour 5 mins ago", "yesterday", "just now"; relative to the crawl.
+function fromRelativeTime(text: string, now = Date.now()) {
+  const phrase = text.trim().toLowerCase();
+  const fixed: Record<string, number> = { now: 0, 'just now': 0, today: 0, yesterday: -86_400_000, tomorrow: 86_400_000 };
+  if (phrase in fixed) return new Date(now + fixed[phrase]);
+
+  const past = phrase.match(/^(.+?)\s+ago$/);
+  const future = phrase.match(/^in\s+(.+)$/);
+  const body = past?.[1] ?? future?.[1];
+  if (!body) {
+    throw new ParseStepError(`${quote(text)} is not a relative time`);
+  }
+
+  let offset = 0;
+  // Numbers may be written against their unit ("5min"); "a", "an" and "one" need a space, so the "an" of
+  // "and" is not read as an amount.
+  const amounts = /\b(?:(\d+(?:\.\d+)?)\s*|(?:an?|one)\s+)([a-z]+)\b/g;
+  const remainder = body.replace(amounts, (_match, amount: string | undefined, unit: string) => {
+    const size = RELATIVE_UNITS.find(([pattern]) => pattern.test(unit))?.[1];
+    if (size === undefined) {
+      throw new ParseStepError(`${quote(text)} uses unknown time unit ${quote(unit)}`);
+    }
+    offset += (amount === undefined ? 1 : Number(amount)) * size;
+    return '';
+  });
+  if (remainder.replace(/,|\band\b|\s/g, '')) {
+    throw new ParseStepError(`${quote(text)} is not a relative time`);
+  }
+  return new Date(now + (past ? -offset : offset));
+}
+
+const TIMEZONE_ABBREVIATIONS: Record<string, number> = {
+  UTC: 0,
+  GMT: 0,
+  Z: 0,
+  WET: 0,
+  WEST: 60,
+  BST: 60,
+  CET: 60,
+  CEST: 120,
+  EET: 120,
+  EEST: 180,
+  MSK: 180,
+  IST: 330,
+  JST: 540,
+  AEST: 600,
+  AEDT: 660,
+  EST: -300,
+  EDT: -240,
+  CST: -360,
+  CDT: -300,
+  MST: -420,
+  MDT: -360,
+  PST: -480,
+  PDT: -420
+};
+
+const DATE_TOKENS = /yyyy|yy|MMMM|MMM|MM|M|dd|d|HH|H|hh|h|mm|ss|SSS|a|XXX|Z|z|'[^']*'|\s+/g;
+
+function monthNames(locale: string) {
+  const names = new Map<string, number>();
+  for (let month = 0; month < 12; month += 1) {
+    const date = new Date(Date.UTC(2000, month, 1));
+    for (const style of ['long', 'short'] as const) {
+      const name = new Intl.DateTimeFormat(locale, { month: style, timeZone: 'UTC' }).format(date);
+      names.set(name.toLowerCase().replace(/\.$/, ''), month + 1);
+    }
+  }
+  return names;
+}
+
+// Offset of an IANA zone from UTC, in minutes, at the given instant.
+export function zoneOffsetMinutes(timeZone: string, instant: number) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(new Date(instant));
+  const field = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60_000);
+}
+
+// Tokens follow the usual pattern letters (yyyy, MM, MMM, dd, HH, hh, a, mm, ss, SSS); XXX or Z
+// reads a numeric offset and z a zone abbreviation such as CET. Without either, `timezone` applies.
+function fromDateFormat(text: string, step: StepOf<'date'>) {
+  const tokens: string[] = [];
+  let pattern = '';
+  let lastIndex = 0;
+  for (const match of step.format.matchAll(DATE_TOKENS)) {
+    pattern += escapeRegExp(step.format.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+    const token = match[0];
+    if (/^\s+$/.test(token)) {
+      pattern += '\\s+';
+    } else if (token.startsWith("'")) {
+      pattern += escapeRegExp(token.slice(1, -1));
+    } else {
+      tokens.push(token);
+      pattern += {
+        yyyy: '(\\d{4})',
+        yy: '(\\d{2})',
+        MMMM: '([^\\s\\d,]+)',
+        MMM: '([^\\s\\d,]+)',
+        SSS: '(\\d{3})',
+        a: '(am|pm|a\\.m\\.|p\\.m\\.)',
+        XXX: '(Z|[+-]\\d{2}:?\\d{2})',
+        Z: '(Z|[+-]\\d{2}:?\\d{2})',
+        z: '([A-Za-z]{1,5})'
+      }[token] ?? (token.length === 2 ? '(\\d{2})' : '(\\d{1,2})');
+    }
+  }
+  pattern += escapeRegExp(step.format.slice(lastIndex));
+
+  const match = text.trim().match(new RegExp(`^${pattern}$`, 'i'));
+  if (!match) {
+    throw new ParseStepError(`${quote(text)} does not match date format ${quote(step.format)}`);
+  }
+
+  const parts = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  let meridiem: string | null = null;
+  let offsetMinutes: number | null = null;
+  tokens.forEach((token, index) => {
+    const value = match[index + 1];
+    switch (token) {
+      case 'yyyy':
+        parts.year = Number(value);
+        break;
+      case 'yy':
+        parts.year = 2000 + Number(value);
+        break;
+      case 'MMMM':
+      case 'MMM': {
+        const month = monthNames(step.locale).get(value.toLowerCase().replace(/\.$/, ''));
+        if (!month) throw new ParseStepError(`${quote(value)} is not a month name in locale ${step.locale}`);
+        parts.month = month;
+        break;
+      }
+      case 'MM':
+      case 'M':
+        parts.month = Number(value);
+        break;
+      case 'dd':
+      case 'd':
+        parts.day = Number(value);
+        break;
+      case 'HH':
+      case 'H':
+      case 'hh':
+      case 'h':
+        parts.hour = Number(value);
+        break;
+      case 'mm':
+        parts.minute = Number(value);
+        break;
+      case 'ss':
+        parts.second = Number(value);
+        break;
+      case 'SSS':
+        parts.millisecond = Number(value);
+        break;
+      case 'a':
+        meridiem = value.toLowerCase().startsWith('p') ? 'pm' : 'am';
+        break;
+      case 'XXX':
+      case 'Z': {
+        if (value.toUpperCase() === 'Z') {
+          offsetMinutes = 0;
+          break;
+        }
+        const [, sign, hours, minutes] = value.match(/([+-])(\d{2}):?(\d{2})/)!;
+        offsetMinutes = (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+        break;
+      }
+      case 'z': {
+        const offset = TIMEZONE_ABBREVIATIONS[value.toUpperCase()];
+        if (offset === undefined) throw new ParseStepError(`Unknown time zone abbreviation ${quote(value)}`);
+        offsetMinutes = offset;
+        break;
+      }
+    }
+  });
+  if (meridiem) {
+    parts.hour = (parts.hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+  const check = new Date(local);
+  if (check.getUTCMonth() !== parts.month - 1 || check.getUTCDate() !== parts.day || parts.hour > 23) {
+    throw new ParseStepError(`${quote(text)} is not a valid date`);
+  }
+
+  if (offsetMinutes !== null) {
+    return new Date(local - offsetMinutes * 60_000);
+  }
+  // Resolve the wall-clock time in the zone; the second pass corrects for DST changes between guesses.
+  const guess = local - zoneOffsetMinutes(step.timezone, local) * 60_000;
+  return new Date(local - zoneOffsetMinutes(step.timezone, guess) * 60_000);
+}
+
+export function applyParseStep(value: unknown, step: ParseStep): unknown {
+  switch (step.type) {
+    case 'trim':
+      return asText(value).trim();
+    case 'lowercase':
+      return asText(value).toLowerCase();
+    case 'uppercase':
+      return asText(value).toUpperCase();
+    case 'replace':
+      return asText(value).replace(new RegExp(step.pattern, step.flags), step.replacement);
+    case 'regex': {
+      const text = asText(value);
+      const match = text.match(new RegExp(step.pattern));
+      if (!match || match[step.group] === undefined) {
+        throw new ParseStepError(`${quote(text)} does not match /${step.pattern}/ (group ${step.group})`);
+      }
+      return match[step.group];
+    }
+    case 'split':
+      return splitText(asText(value), step);
+    case 'map':
+      return mapValue(asText(value).trim(), step);
+    case 'boolean':
+      return typeof value === 'boolean' ? value : toBoolean(asText(value).trim(), step);
+    case 'enum':
+      return toEnum(asText(value).trim(), step);
+    case 'number':
+      return typeof value === 'number' ? value : toLocaleNumber(asText(value), step);
+    case 'relativeTime':
+      return fromRelativeTime(asText(value));
+    case 'date':
+      return fromDateFormat(asText(value), step);
+  }
+}
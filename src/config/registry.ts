@@ -0,0 +1,27 @@
+import { ResolvedSourceConfig, SourceFileEntry } from './index';
+
+// Holds the configs currently in effect. The scheduler, API and WebSocket layers read through
+// the registry so a reload swaps every layer to the new set in a single step.
+export class SourceRegistry {
+  private entries: Map<string, SourceFileEntry>;
+
+  constructor(entries: SourceFileEntry[] = []) {
+    this.entries = new Map(entries.map((entry) => [entry.config.id, entry]));
+  }
+
+  list(): ResolvedSourceConfig[] {
+    return [...this.entries.values()].map((entry) => entry.config);
+  }
+
+  get(id: string): ResolvedSourceConfig | undefined {
+    return this.entries.get(id)?.config;
+  }
+
+  snapshot(): SourceFileEntry[] {
+    return [...this.entries.values()];
+  }
+
+  replace(entries: SourceFileEntry[]) {
+    this.entries = new Map(entries.map((entry) => [entry.config.id, entry]));
+  }
+}
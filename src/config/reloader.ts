@@ -0,0 +1,124 @@
+import fs from 'fs';
+import { PrismaClient } from '@prisma/client';
+import {
+  DEFAULT_SOURCES_DIR,
+  SourceFileEntry,
+  collectYamlFiles,
+  loadSourceFile,
+  toPersistableConfig,
+  upsertSources
+} from './index';
+import { SourceRegistry } from './registry';
+import { eventBus } from '../shared/eventBus';
+
+export interface ConfigReloadResult {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  errors: Array<{ file: string; message: string }>;
+}
+
+const WATCH_DEBOUNCE_MS = 500;
+
+export class ConfigReloader {
+  private watcher: fs.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private prisma: PrismaClient,
+    private registry: SourceRegistry,
+    private sourcesDir = DEFAULT_SOURCES_DIR
+  ) {}
+
+  // Reloads are serialized so a watcher event and an API call never interleave their writes.
+  reload(): Promise<ConfigReloadResult> {
+    const run = this.pending.catch(() => undefined).then(() => this.applyReload());
+    this.pending = run;
+    return run;
+  }
+
+  watch() {
+    if (this.watcher) return;
+    this.watcher = fs.watch(this.sourcesDir, { recursive: true }, (_event, filename) => {
+      if (filename && !/\.ya?ml$/.test(filename)) return;
+      if (this.debounceTimer) clearTimeout(this.debounceTimer);
+      this.debounceTimer = setTimeout(() => {
+        this.debounceTimer = null;
+        this.reload().catch((error) => console.error('[config] reload failed', error));
+      }, WATCH_DEBOUNCE_MS);
+    });
+    console.info(`[config] watching ${this.sourcesDir} for changes`);
+  }
+
+  close() {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  private async applyReload(): Promise<ConfigReloadResult> {
+    const files = await collectYamlFiles(this.sourcesDir);
+    const previous = this.registry.snapshot();
+    const next = new Map<string, SourceFileEntry>();
+    const errors: ConfigReloadResult['errors'] = [];
+
+    for (const filePath of files) {
+      try {
+        const config = await loadSourceFile(filePath);
+        const duplicate = next.get(config.id);
+        if (duplicate) {
+          throw new Error(`Duplicate source id "${config.id}" (already defined in ${duplicate.filePath})`);
+        }
+        next.set(config.id, { filePath, config });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[config] rejected ${filePath}: ${message}`);
+        errors.push({ file: filePath, message });
+      }
+    }
+
+    // A rejected file keeps whatever it defined before, so one bad edit never stops running sources.
+    const rejectedFiles = new Set(errors.map((error) => error.file));
+    for (const entry of previous) {
+      if (rejectedFiles.has(entry.filePath) && !next.has(entry.config.id)) {
+        next.set(entry.config.id, entry);
+      }
+    }
+
+    const previousById = new Map(previous.map((entry) => [entry.config.id, entry]));
+    const added: string[] = [];
+    const updated: string[] = [];
+    for (const [id, entry] of next) {
+      const before = previousById.get(id);
+      if (!before) {
+        added.push(id);
+      } else if (
+        JSON.stringify(toPersistableConfig(before.config)) !== JSON.stringify(toPersistableConfig(entry.config))
+      ) {
+        updated.push(id);
+      }
+    }
+    const removed = previous.map((entry) => entry.config.id).filter((id) => !next.has(id));
+
+    const changed = [...added, ...updated].map((id) => next.get(id)!.config);
+    await upsertSources(this.prisma, changed);
+    if (removed.length) {
+      await this.prisma.source.updateMany({ where: { id: { in: removed } }, data: { enabled: false } });
+    }
+
+    this.registry.replace([...next.values()]);
+
+    const result: ConfigReloadResult = { added, updated, removed, errors };
+    console.info(
+      `[config] reloaded sources: ${added.length} added, ${updated.length} updated, ${removed.length} removed, ${errors.length} rejected`
+    );
+    eventBus.emit('config:reloaded', result);
+    return result;
+  }
+}
@@ -0,0 +1,263 @@
+import { z } from 'zod';
+import { MIN_CRAWL_INTERVAL_MS } from '../shared/constants';
+import { timeZone, zoneOffsetMinutes } from './parseSteps';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+// Far enough ahead for a cron expression like `0 0 29 2 *` combined with blackout dates.
+const HORIZON_DAYS = 5 * 366;
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const CRON_ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+interface CronFieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: readonly string[];
+  // Value of the first entry in `names` (1 for months, 0 for weekdays).
+  namesFrom?: number;
+}
+
+const CRON_FIELDS: CronFieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesFrom: 1 },
+  // 7 is accepted as Sunday, like most cron implementations.
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesFrom: 0 }
+];
+
+export interface CronExpression {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron semantics: when both day fields are restricted, a day matching either one runs.
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+function parseCronValue(text: string, spec: CronFieldSpec) {
+  const index = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = index >= 0 ? index + (spec.namesFrom ?? 0) : /^\d+$/.test(text) ? Number(text) : Number.NaN;
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} "${text}" (expected ${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseCronField(text: string, spec: CronFieldSpec) {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${spec.name} "${part}"`);
+    }
+    let [from, to] = [spec.min, spec.max];
+    if (range !== '*') {
+      const [start, end] = range.split('-');
+      from = parseCronValue(start, spec);
+      to = end === undefined ? (stepText === undefined ? from : spec.max) : parseCronValue(end, spec);
+    }
+    if (from > to) {
+      throw new Error(`Invalid range in ${spec.name} "${part}"`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+// Five fields (minute hour day-of-month month day-of-week) with `*`, lists, ranges, steps and
+// month/weekday names, or one of the @daily-style aliases.
+export function parseCron(expression: string): CronExpression {
+  const fields = (CRON_ALIASES[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(`Expected ${CRON_FIELDS.length} fields (minute hour day month weekday), got ${fields.length}`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index])
+  );
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*'
+  };
+}
+
+const cronError = (expression: string) => {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const timeOfDay = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Expected HH:MM');
+
+const minuteOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const windowSchema = z
+  .object({
+    days: z.array(z.enum(DAY_NAMES)).min(1).default([...DAY_NAMES]),
+    start: timeOfDay.default('00:00'),
+    end: timeOfDay.default('24:00')
+  })
+  .refine((window) => minuteOfDay(window.start) < minuteOfDay(window.end), {
+    message: 'Window end must be after its start; split windows that cross midnight in two'
+  });
+
+export const scheduleSchema = z
+  .object({
+    // Defaults to `cron` when `cron` is set and to `interval` otherwise.
+    mode: z.enum(['interval', 'cron', 'manual']).optional(),
+    intervalMs: z.number().int().positive().optional(),
+    cron: z
+      .string()
+      .min(1)
+      .superRefine((expression, ctx) => {
+        const message = cronError(expression);
+        if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid cron expression: ${message}` });
+      })
+      .optional(),
+    timezone: timeZone.default('UTC'),
+    windows: z.array(windowSchema).default([]),
+    blackoutDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')).default([]),
+    jitterMs: z.number().int().nonnegative().default(0),
+    backoffMultiplier: z.number().positive().default(2),
+    maxBackoffMs: z.number().int().positive().default(3_600_000),
+    failureLimit: z.number().int().positive().default(5)
+  })
+  .superRefine((schedule, ctx) => {
+    const mode = schedule.mode ?? (schedule.cron ? 'cron' : 'interval');
+    if (mode === 'interval' && schedule.intervalMs === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['intervalMs'],
+        message: 'Interval schedules require intervalMs'
+      });
+    }
+    if (mode === 'interval' && schedule.cron) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cron'], message: 'cron requires mode "cron"' });
+    }
+    if (mode === 'cron' && !schedule.cron) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cron'], message: 'Cron schedules require cron' });
+    }
+  });
+
+export type ScheduleConfig = z.infer<typeof scheduleSchema>;
+export type ScheduleMode = NonNullable<ScheduleConfig['mode']>;
+
+export interface ResolvedSchedule extends ScheduleConfig {
+  mode: ScheduleMode;
+  // Base for interval runs and for retry backoff; never below MIN_CRAWL_INTERVAL_MS.
+  effectiveIntervalMs: number;
+}
+
+export function resolveSchedule(schedule: ScheduleConfig): ResolvedSchedule {
+  return {
+    ...schedule,
+    mode: schedule.mode ?? (schedule.cron ? 'cron' : 'interval'),
+    effectiveIntervalMs: Math.max(MIN_CRAWL_INTERVAL_MS, schedule.intervalMs ?? MIN_CRAWL_INTERVAL_MS)
+  };
+}
+
+// Wall-clock times are handled as "local milliseconds": the UTC timestamp that has the same
+// calendar fields as the local time in the schedule's timezone.
+const toWall = (timeZone: string, instant: number) => instant + zoneOffsetMinutes(timeZone, instant) * MINUTE;
+
+function fromWall(timeZone: string, wall: number) {
+  const guess = wall - zoneOffsetMinutes(timeZone, wall) * MINUTE;
+  return wall - zoneOffsetMinutes(timeZone, guess) * MINUTE;
+}
+
+const isBlackout = (schedule: ResolvedSchedule, day: number) =>
+  schedule.blackoutDates.includes(new Date(day * DAY).toISOString().slice(0, 10));
+
+// Allowed [start, end) minute ranges of a local day, ordered by start.
+function dayWindows(schedule: ResolvedSchedule, day: number): Array<[number, number]> {
+  if (!schedule.windows.length) return [[0, 24 * 60]];
+  const weekday = DAY_NAMES[new Date(day * DAY).getUTCDay()];
+  return schedule.windows
+    .filter((window) => window.days.includes(weekday))
+    .map((window): [number, number] => [minuteOfDay(window.start), minuteOfDay(window.end)])
+    .sort((a, b) => a[0] - b[0]);
+}
+
+// The instant itself when it falls inside a window on a non-blackout day, otherwise the start of
+// the next window. Null when nothing is allowed within the search horizon.
+export function nextAllowedTime(schedule: ResolvedSchedule, instant: number): number | null {
+  const wall = toWall(schedule.timezone, instant);
+  const firstDay = Math.floor(wall / DAY);
+  for (let day = firstDay; day <= firstDay + HORIZON_DAYS; day += 1) {
+    if (isBlackout(schedule, day)) continue;
+    for (const [start, end] of dayWindows(schedule, day)) {
+      if (wall < day * DAY + end * MINUTE) {
+        return wall >= day * DAY + start * MINUTE ? instant : fromWall(schedule.timezone, day * DAY + start * MINUTE);
+      }
+    }
+  }
+  return null;
+}
+
+export const isAllowedTime = (schedule: ResolvedSchedule, instant: number) =>
+  nextAllowedTime(schedule, instant) === instant;
+
+const cronCache = new Map<string, CronExpression>();
+
+// The first cron time strictly after `after` that is inside the windows and not on a blackout date.
+export function nextCronTime(schedule: ResolvedSchedule, after: number): number | null {
+  if (!schedule.cron) return null;
+  let cron = cronCache.get(schedule.cron);
+  if (!cron) {
+    cron = parseCron(schedule.cron);
+    cronCache.set(schedule.cron, cron);
+  }
+
+  const wall = toWall(schedule.timezone, after);
+  const firstDay = Math.floor(wall / DAY);
+  for (let day = firstDay; day <= firstDay + HORIZON_DAYS; day += 1) {
+    const date = new Date(day * DAY);
+    const dayMatch = cron.days.has(date.getUTCDate());
+    const weekdayMatch = cron.weekdays.has(date.getUTCDay());
+    const matchesDay = cron.anyDay || cron.anyWeekday ? dayMatch && weekdayMatch : dayMatch || weekdayMatch;
+    if (!cron.months.has(date.getUTCMonth() + 1) || !matchesDay || isBlackout(schedule, day)) continue;
+
+    const windows = dayWindows(schedule, day);
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const time = hour * 60 + minute;
+        const candidate = day * DAY + time * MINUTE;
+        if (candidate <= wall || !windows.some(([start, end]) => time >= start && time < end)) continue;
+        const instant = fromWall(schedule.timezone, candidate);
+        if (instant > after) return instant;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,72 @@
+import { Page } from 'playwright';
+import { ActionConfig, ResolvedSourceConfig } from '../config';
+import { readSecretEnv } from '../shared/secrets';
+import { locate } from './locators';
+
+function hasTarget(action: ActionConfig): action is ActionConfig & { css?: string; xpath?: string } {
+  return ('css' in action && Boolean(action.css)) || ('xpath' in action && Boolean(action.xpath));
+}
+
+async function runAction(page: Page, action: ActionConfig, timeout: number) {
+  const target = hasTarget(action) ? locate(page, action).first() : null;
+
+  switch (action.type) {
+    case 'click':
+      await target!.click({ timeout });
+      return;
+    case 'fill':
+      await target!.fill(action.valueEnv ? readSecretEnv(action.valueEnv, 'fill action') : action.value!, { timeout });
+      return;
+    case 'select':
+      await target!.selectOption(action.value, { timeout });
+      return;
+    case 'press':
+      if (target) {
+        await target.press(action.key, { timeout });
+      } else {
+        await page.keyboard.press(action.key);
+      }
+      return;
+    case 'scroll':
+      for (let i = 0; i < action.times; i += 1) {
+        if (target) {
+          await target.scrollIntoViewIfNeeded({ timeout });
+        } else {
+          await page.mouse.wheel(0, page.viewportSize()?.height ?? 720);
+        }
+        if (action.delayMs) {
+          await page.waitForTimeout(action.delayMs);
+        }
+      }
+      return;
+    case 'waitForSelector':
+      await target!.waitFor({ state: action.state, timeout });
+      return;
+    case 'waitForTimeout':
+      await page.waitForTimeout(action.ms);
+      return;
+    case 'waitForText': {
+      const scope = hasTarget(action) ? locate(page, action) : page.locator('body');
+      await scope.filter({ hasText: action.text }).first().waitFor({ state: 'visible', timeout });
+      return;
+    }
+    default:
+      throw new Error(`Unsupported action "${(action as { type: string }).type}"`);
+  }
+}
+
+export async function runActions(
+  page: Page,
+  config: ResolvedSourceConfig,
+  actions: ActionConfig[] = config.actions,
+  label = 'Action'
+) {
+  for (const [index, action] of actions.entries()) {
+    try {
+      await runAction(page, action, config.browser.timeouts.actionMs);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`${label} ${index + 1} (${action.type}) failed: ${message}`);
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { BrowserContext, Page } from 'playwright';
+import { PrismaClient } from '@prisma/client';
+import { DebugConfig, ResolvedSourceConfig } from '../config';
+import { ARTIFACTS_DIR, ARTIFACTS_MAX_BYTES } from '../shared/constants';
+
+export type ArtifactKind = 'screenshot' | 'dom' | 'console' | 'trace';
+
+const ARTIFACT_FILES: Record<ArtifactKind, string> = {
+  screenshot: 'screenshot.png',
+  dom: 'dom.html',
+  console: 'console.log',
+  trace: 'trace.zip'
+};
+
+const runCounts = new Map<string, number>();
+
+export function artifactDirectory(sourceId: string, statusId: number) {
+  return path.join(ARTIFACTS_DIR, sourceId, String(statusId));
+}
+
+export function resolveArtifactPath(sourceId: string, statusId: number, name: string) {
+  if (!Object.values(ARTIFACT_FILES).includes(name)) return null;
+  const filePath = path.join(artifactDirectory(sourceId, statusId), name);
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+// Collects debug artifacts for one browser crawl. Everything is captured before the page is
+// released, because whether the run fails is only known later (e.g. output validation); the
+// crawler then either saves the artifacts against the run's status row or discards them.
+export class RunArtifacts {
+  private consoleLines: string[] = [];
+  private captured = new Map<ArtifactKind, Buffer>();
+  private tracePath: string | null = null;
+  private tracing = false;
+  readonly keepOnSuccess: boolean;
+
+  constructor(
+    private sourceId: string,
+    private debug: DebugConfig
+  ) {
+    const run = (runCounts.get(sourceId) ?? 0) + 1;
+    runCounts.set(sourceId, run);
+    this.keepOnSuccess = debug.everyNRuns !== undefined && run % debug.everyNRuns === 0;
+  }
+
+  static forSource(config: ResolvedSourceConfig) {
+    return config.kind === 'browser' && config.debug ? new RunArtifacts(config.id, config.debug) : null;
+  }
+
+  get keepOnFailure() {
+    return this.debug.onFailure || this.keepOnSuccess;
+  }
+
+  attach(page: Page) {
+    if (this.debug.console) {
+      page.on('console', (message) => {
+        this.consoleLines.push(`${new Date().toISOString()} [${message.type()}] ${message.text()}`);
+      });
+      page.on('pageerror', (error) => {
+        this.consoleLines.push(`${new Date().toISOString()} [pageerror] ${error.message}`);
+      });
+    }
+  }
+
+  // Called once login is done, so the trace never holds the credentials typed into the login form.
+  async startTrace(context: BrowserContext) {
+    if (this.debug.trace) {
+      await context.tracing.start({ screenshots: true, snapshots: true });
+      this.tracing = true;
+    }
+  }
+
+  // Never throws: a page that crashed or a trace that cannot be written must not mask the crawl error.
+  async capture(page: Page, context: BrowserContext) {
+    const attempt = async (kind: ArtifactKind, read: () => Promise<Buffer>) => {
+      try {
+        this.captured.set(kind, await read());
+      } catch (error) {
+        console.warn(`[artifacts] could not capture ${kind} for ${this.sourceId}:`, error);
+      }
+    };
+
+    if (this.debug.screenshot) {
+      await attempt('screenshot', () => page.screenshot({ fullPage: true }));
+    }
+    if (this.debug.dom) {
+      await attempt('dom', async () => Buffer.from(await page.content()));
+    }
+    if (this.debug.console) {
+      this.captured.set('console', Buffer.from(this.consoleLines.map((line) => `${line}\n`).join('')));
+    }
+    if (this.tracing) {
+      this.tracing = false;
+      const tracePath = path.join(os.tmpdir(), `relay-trace-${randomUUID()}.zip`);
+      try {
+        await context.tracing.stop({ path: tracePath });
+        this.tracePath = tracePath;
+      } catch (error) {
+        console.warn(`[artifacts] could not capture trace for ${this.sourceId}:`, error);
+      }
+    }
+  }
+
+  async save(prisma: PrismaClient, statusId: number) {
+    const directory = artifactDirectory(this.sourceId, statusId);
+    try {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const rows = [];
+      for (const [kind, contents] of this.captured) {
+        await fs.promises.writeFile(path.join(directory, ARTIFACT_FILES[kind]), contents);
+        rows.push({ sourceId: this.sourceId, statusId, kind, name: ARTIFACT_FILES[kind], size: contents.length });
+      }
+      if (this.tracePath) {
+        const target = path.join(directory, ARTIFACT_FILES.trace);
+        await fs.promises.copyFile(this.tracePath, target);
+        const { size } = await fs.promises.stat(target);
+        rows.push({ sourceId: this.sourceId, statusId, kind: 'trace', name: ARTIFACT_FILES.trace, size });
+      }
+      await prisma.runArtifact.createMany({ data: rows });
+      console.info(`[artifacts] saved ${rows.length} artifact(s) for ${this.sourceId} run ${statusId}`);
+      await enforceArtifactLimit(prisma);
+    } catch (error) {
+      console.error(`[artifacts] failed to save artifacts for ${this.sourceId} run ${statusId}`, error);
+    } finally {
+      await this.discard();
+    }
+  }
+
+  async discard() {
+    this.captured.clear();
+    this.consoleLines = [];
+    if (this.tracePath) {
+      await fs.promises.rm(this.tracePath, { force: true });
+      this.tracePath = null;
+    }
+  }
+}
+
+// Deletes whole runs, oldest first, until the stored artifacts fit in ARTIFACTS_MAX_BYTES.
+export async function enforceArtifactLimit(prisma: PrismaClient) {
+  const total = await prisma.runArtifact.aggregate({ _sum: { size: true } });
+  let excess = (total._sum.size ?? 0) - ARTIFACTS_MAX_BYTES;
+
+  while (excess > 0) {
+    const oldest = await prisma.runArtifact.findFirst({ orderBy: { createdAt: 'asc' } });
+    if (!oldest) return;
+    const run = await prisma.runArtifact.findMany({ where: { statusId: oldest.statusId } });
+    await fs.promises.rm(artifactDirectory(oldest.sourceId, oldest.statusId), { recursive: true, force: true });
+    await prisma.runArtifact.deleteMany({ where: { statusId: oldest.statusId } });
+    excess -= run.reduce((sum, artifact) => sum + artifact.size, 0);
+    console.info(`[artifacts] pruned artifacts of ${oldest.sourceId} run ${oldest.statusId}`);
+  }
+}
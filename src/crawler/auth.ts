@@ -0,0 +1,136 @@
+import { BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AuthConfig, ResolvedSourceConfig } from '../config';
+import { eventBus } from '../shared/eventBus';
+import { readSecretEnv } from '../shared/secrets';
+import { runActions } from './actions';
+import { locate } from './locators';
+
+type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+export function resolveAuthHeaders(auth: AuthConfig) {
+  const headers: Record<string, string> = { ...auth.headers };
+  for (const [name, envName] of Object.entries(auth.headersEnv)) {
+    headers[name] = readSecretEnv(envName, `auth header ${name}`);
+  }
+  return headers;
+}
+
+function resolveCookies(config: ResolvedSourceConfig, auth: AuthConfig) {
+  const fallbackDomain = new URL(config.url).hostname;
+  return auth.cookies.map((cookie) => ({
+    name: cookie.name,
+    value: cookie.valueEnv ? readSecretEnv(cookie.valueEnv, `auth cookie ${cookie.name}`) : cookie.value!,
+    domain: cookie.domain ?? fallbackDomain,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly
+  }));
+}
+
+// Static cookies as a Cookie header for http sources, which have no browser context.
+export function resolveAuthCookieHeader(config: ResolvedSourceConfig, auth: AuthConfig) {
+  return resolveCookies(config, auth)
+    .map((cookie) => `${cookie.name}=${cookie.value}`)
+    .join('; ');
+}
+
+async function loadSession(prisma: PrismaClient, sourceId: string) {
+  const session = await prisma.sourceSession.findUnique({ where: { sourceId } });
+  return (session?.storageState as unknown as StorageState | undefined) ?? undefined;
+}
+
+export async function saveSession(prisma: PrismaClient, config: ResolvedSourceConfig, context: BrowserContext) {
+  if (!config.auth?.persistSession) return;
+  const storageState = (await context.storageState()) as unknown as Prisma.InputJsonObject;
+  await prisma.sourceSession.upsert({
+    where: { sourceId: config.id },
+    update: { storageState },
+    create: { sourceId: config.id, storageState }
+  });
+}
+
+export async function clearSession(prisma: PrismaClient, sourceId: string) {
+  await prisma.sourceSession.deleteMany({ where: { sourceId } });
+}
+
+// Context options for a new context of an authenticated source: the persisted session (when
+// `prisma` is given) and any extra headers.
+export async function authContextOptions(
+  prisma: PrismaClient | null,
+  config: ResolvedSourceConfig
+): Promise<BrowserContextOptions> {
+  if (!config.auth) return {};
+  const headers = resolveAuthHeaders(config.auth);
+  return {
+    storageState: prisma && config.auth.persistSession ? await loadSession(prisma, config.id) : undefined,
+    extraHTTPHeaders: Object.keys(headers).length ? headers : undefined
+  };
+}
+
+async function sessionExpired(page: Page, config: ResolvedSourceConfig, auth: AuthConfig) {
+  const { loggedInSelector, loggedOutSelector, loginUrlPattern } = auth.sessionCheck;
+  if (loginUrlPattern && new RegExp(loginUrlPattern).test(page.url())) {
+    return `redirected to ${page.url()}`;
+  }
+  if (loggedOutSelector && (await locate(page, loggedOutSelector).count()) > 0) {
+    return 'logged-out marker is present';
+  }
+  if (loggedInSelector) {
+    const present = await locate(page, loggedInSelector)
+      .first()
+      .waitFor({ state: 'attached', timeout: config.browser.timeouts.actionMs })
+      .then(() => true)
+      .catch(() => false);
+    if (!present) return 'logged-in marker is missing';
+  }
+  return null;
+}
+
+async function login(page: Page, config: ResolvedSourceConfig, auth: AuthConfig) {
+  await page.goto(auth.loginUrl ?? config.url, {
+    timeout: config.browser.timeouts.navigationMs,
+    waitUntil: 'networkidle'
+  });
+  await runActions(page, config, auth.steps, 'Login step');
+}
+
+// Navigates to the source URL with a valid session: static cookies are applied, and the login
+// steps run when there is no stored session yet or the session check says it has expired.
+export async function openAuthenticatedPage(
+  prisma: PrismaClient | null,
+  page: Page,
+  config: ResolvedSourceConfig,
+  hasStoredSession: boolean
+) {
+  const auth = config.auth!;
+  const context = page.context();
+  if (auth.cookies.length) {
+    await context.addCookies(resolveCookies(config, auth));
+  }
+
+  const navigate = () =>
+    page.goto(config.url, { timeout: config.browser.timeouts.navigationMs, waitUntil: 'networkidle' });
+
+  let reason: string | null = auth.steps.length && !hasStoredSession ? 'no stored session' : null;
+  if (!reason) {
+    await navigate();
+    reason = await sessionExpired(page, config, auth);
+    if (!reason) return;
+    if (!auth.steps.length) {
+      throw new Error(`Session expired (${reason}) and no login steps are configured`);
+    }
+  }
+
+  console.info(`[auth] logging in to ${config.id}: ${reason}`);
+  eventBus.emit('auth:login', { sourceId: config.id, reason });
+  await login(page, config, auth);
+  await navigate();
+
+  const stillExpired = await sessionExpired(page, config, auth);
+  if (stillExpired) {
+    if (prisma) await clearSession(prisma, config.id);
+    throw new Error(`Login did not establish a session for ${config.id} (${stillExpired})`);
+  }
+  if (prisma) await saveSession(prisma, config, context);
+}
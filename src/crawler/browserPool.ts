@@ -0,0 +1,255 @@
+import { Browser, BrowserContext, BrowserContextOptions, Page, chromium, firefox, webkit } from 'playwright';
+import { BrowserConfig } from '../config';
+import { BROWSER_RECYCLE_PAGES, BROWSER_WARM_CONTEXTS } from '../shared/constants';
+
+const engines = { chromium, firefox, webkit };
+const IDLE_CONTEXT_TTL_MS = 10 * 60 * 1000;
+
+type LaunchOptions = Pick<BrowserConfig, 'engine' | 'headless' | 'args'>;
+
+interface PooledBrowser {
+  key: string;
+  options: LaunchOptions;
+  browser: Browser;
+  pagesServed: number;
+  activeContexts: number;
+  retiring: boolean;
+}
+
+interface IdleContext {
+  pooled: PooledBrowser;
+  context: BrowserContext;
+  contextKey: string;
+  idleSince: number;
+}
+
+export interface BrowserLease {
+  page: Page;
+  context: BrowserContext;
+  // True when a warm context was reused, so it still carries cookies from earlier crawls.
+  reused: boolean;
+  release(): Promise<void>;
+}
+
+function launchKey(options: LaunchOptions) {
+  return `${options.engine}:${options.headless ? 'headless' : 'headed'}:${options.args.join(' ')}`;
+}
+
+// Storage state is not part of the key: a warm context already carries the session it built up.
+function contextKey(config: BrowserConfig, extra: BrowserContextOptions) {
+  return JSON.stringify({ userAgent: config.userAgent, viewport: config.viewport, headers: extra.extraHTTPHeaders });
+}
+
+async function closeQuietly(target: { close(): Promise<void> }) {
+  await target.close().catch(() => undefined);
+}
+
+// Browsers are shared by every source with the same engine and launch options; contexts are kept
+// warm per source (up to BROWSER_WARM_CONTEXTS) so repeat crawls skip context setup. A browser is
+// retired after BROWSER_RECYCLE_PAGES pages and closed once its last context is released.
+export class BrowserPool {
+  private current = new Map<string, PooledBrowser>();
+  private retiring = new Set<PooledBrowser>();
+  private launching = new Map<string, Promise<PooledBrowser>>();
+  private idle = new Map<string, IdleContext[]>();
+
+  // `context` options (storage state, extra headers) apply when a new context has to be created.
+  async acquire(
+    source: { id: string; browser: BrowserConfig },
+    options: { warm?: boolean; context?: BrowserContextOptions } = {}
+  ): Promise<BrowserLease> {
+    const warm = options.warm ?? true;
+    const extra = options.context ?? {};
+    const key = contextKey(source.browser, extra);
+    await this.sweepIdle();
+
+    const reused = warm ? await this.takeIdle(source, key) : null;
+    const pooled = reused?.pooled ?? (await this.browserFor(source.browser));
+    const context =
+      reused?.context ??
+      (await pooled.browser.newContext({
+        ...extra,
+        userAgent: source.browser.userAgent,
+        viewport: source.browser.viewport
+      }));
+
+    pooled.activeContexts += 1;
+    pooled.pagesServed += 1;
+    if (pooled.pagesServed >= BROWSER_RECYCLE_PAGES) {
+      this.retire(pooled);
+    }
+
+    let page: Page;
+    try {
+      page = await context.newPage();
+    } catch (error) {
+      pooled.activeContexts -= 1;
+      await closeQuietly(context);
+      await this.closeIfDrained(pooled);
+      throw error;
+    }
+
+    let crashed = false;
+    page.on('crash', () => {
+      crashed = true;
+    });
+
+    let released = false;
+    const release = async () => {
+      if (released) return;
+      released = true;
+      pooled.activeContexts -= 1;
+      await Promise.all(context.pages().map((open) => closeQuietly(open)));
+
+      const idleList = this.idle.get(source.id) ?? [];
+      const reusable = warm && !crashed && !pooled.retiring && pooled.browser.isConnected();
+      if (reusable && idleList.length < BROWSER_WARM_CONTEXTS) {
+        idleList.push({ pooled, context, contextKey: key, idleSince: Date.now() });
+        this.idle.set(source.id, idleList);
+      } else {
+        await closeQuietly(context);
+      }
+      await this.closeIfDrained(pooled);
+    };
+
+    return { page, context, reused: Boolean(reused), release };
+  }
+
+  async check(options: LaunchOptions) {
+    const pooled = await this.browserFor(options);
+    if (!pooled.browser.isConnected()) {
+      throw new Error(`${options.engine} browser is disconnected`);
+    }
+    return { engine: options.engine, version: pooled.browser.version() };
+  }
+
+  stats() {
+    const browsers = [...this.current.values(), ...this.retiring].map((pooled) => ({
+      key: pooled.key,
+      engine: pooled.options.engine,
+      headless: pooled.options.headless,
+      pagesServed: pooled.pagesServed,
+      activeContexts: pooled.activeContexts,
+      idleContexts: this.idleContexts().filter((entry) => entry.pooled === pooled).length,
+      retiring: pooled.retiring
+    }));
+    return {
+      browsers,
+      activeContexts: browsers.reduce((sum, browser) => sum + browser.activeContexts, 0),
+      idleContexts: this.idleContexts().length,
+      recycleAfterPages: BROWSER_RECYCLE_PAGES,
+      warmContextsPerSource: BROWSER_WARM_CONTEXTS
+    };
+  }
+
+  async shutdown() {
+    const idle = this.idleContexts();
+    this.idle.clear();
+    await Promise.all(idle.map((entry) => closeQuietly(entry.context)));
+
+    const browsers = [...this.current.values(), ...this.retiring];
+    this.current.clear();
+    this.retiring.clear();
+    await Promise.all(browsers.map((pooled) => closeQuietly(pooled.browser)));
+  }
+
+  private idleContexts() {
+    return [...this.idle.values()].flat();
+  }
+
+  private async takeIdle(source: { id: string; browser: BrowserConfig }, wantedContext: string) {
+    const idleList = this.idle.get(source.id) ?? [];
+    const wantedLaunch = launchKey(source.browser);
+    while (idleList.length) {
+      const entry = idleList.pop()!;
+      const usable =
+        !entry.pooled.retiring &&
+        entry.pooled.browser.isConnected() &&
+        entry.pooled.key === wantedLaunch &&
+        entry.contextKey === wantedContext;
+      if (usable) return entry;
+      await closeQuietly(entry.context);
+    }
+    return null;
+  }
+
+  // Idle contexts of sources that stopped crawling (removed, paused, reconfigured) are closed eventually.
+  private async sweepIdle() {
+    const cutoff = Date.now() - IDLE_CONTEXT_TTL_MS;
+    for (const [sourceId, idleList] of this.idle) {
+      const expired = idleList.filter((entry) => entry.idleSince < cutoff);
+      if (!expired.length) continue;
+      this.idle.set(
+        sourceId,
+        idleList.filter((entry) => entry.idleSince >= cutoff)
+      );
+      await Promise.all(expired.map((entry) => closeQuietly(entry.context)));
+    }
+  }
+
+  private async browserFor(options: LaunchOptions) {
+    const key = launchKey(options);
+    const existing = this.current.get(key);
+    if (existing?.browser.isConnected()) return existing;
+
+    const pending = this.launching.get(key);
+    if (pending) return pending;
+
+    const launch = (async () => {
+      console.info(`[browser] launching ${key}`);
+      const browser = await engines[options.engine].launch({ headless: options.headless, args: options.args });
+      const pooled: PooledBrowser = { key, options, browser, pagesServed: 0, activeContexts: 0, retiring: false };
+      browser.on('disconnected', () => this.forget(pooled));
+      this.current.set(key, pooled);
+      return pooled;
+    })();
+    this.launching.set(key, launch);
+    try {
+      return await launch;
+    } finally {
+      this.launching.delete(key);
+    }
+  }
+
+  private retire(pooled: PooledBrowser) {
+    if (pooled.retiring) return;
+    console.info(`[browser] recycling ${pooled.key} after ${pooled.pagesServed} page(s)`);
+    pooled.retiring = true;
+    if (this.current.get(pooled.key) === pooled) {
+      this.current.delete(pooled.key);
+    }
+    this.retiring.add(pooled);
+    this.dropIdle(pooled);
+  }
+
+  private async closeIfDrained(pooled: PooledBrowser) {
+    if (pooled.retiring && pooled.activeContexts === 0) {
+      this.retiring.delete(pooled);
+      await closeQuietly(pooled.browser);
+    }
+  }
+
+  // A crashed or closed browser is dropped so the next acquire launches a replacement.
+  private forget(pooled: PooledBrowser) {
+    if (this.current.get(pooled.key) === pooled) {
+      this.current.delete(pooled.key);
+      console.warn(`[browser] ${pooled.key} disconnected`);
+    }
+    this.retiring.delete(pooled);
+    this.dropIdle(pooled);
+  }
+
+  private dropIdle(pooled: PooledBrowser) {
+    for (const [sourceId, idleList] of this.idle) {
+      const stale = idleList.filter((entry) => entry.pooled === pooled);
+      if (!stale.length) continue;
+      this.idle.set(
+        sourceId,
+        idleList.filter((entry) => entry.pooled !== pooled)
+      );
+      stale.forEach((entry) => void closeQuietly(entry.context));
+    }
+  }
+}
+
+export const browserPool = new BrowserPool();
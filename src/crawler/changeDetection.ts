@@ -0,0 +1,87 @@
+import { PrismaClient } from '@prisma/client';
+import { ResolvedSourceConfig } from '../config';
+import { findLatestData } from '../db/sourceData';
+import { retentionCutoff } from '../retention/retention';
+
+export interface FieldChange {
+  field: string;
+  index?: number;
+  previous: unknown;
+  current: unknown;
+}
+
+export interface PreviousPayload {
+  rowIds: number[];
+  records: Array<Record<string, unknown>>;
+}
+
+// Stored payloads come back from the database as JSON, so fresh payloads are compared in the same form
+// (dates as ISO strings).
+function toJson(value: unknown): unknown {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+function valuesEqual(previous: unknown, current: unknown, tolerance: number) {
+  if (typeof previous === 'number' && typeof current === 'number') {
+    return Math.abs(previous - current) <= tolerance;
+  }
+  return JSON.stringify(previous) === JSON.stringify(current);
+}
+
+export async function loadPreviousPayload(
+  prisma: PrismaClient,
+  config: ResolvedSourceConfig
+): Promise<PreviousPayload | null> {
+  const latest = await findLatestData(prisma, config.id, retentionCutoff(config));
+  if (!latest) return null;
+
+  if ('items' in latest) {
+    return {
+      rowIds: latest.items.map((item) => item.id),
+      records: latest.items.map((item) => item.parsed as Record<string, unknown>)
+    };
+  }
+  const records = Array.isArray(latest.parsed) ? latest.parsed : [latest.parsed];
+  return { rowIds: [latest.id], records: records as Array<Record<string, unknown>> };
+}
+
+// List sources are compared item by item, so their changes carry the item index.
+export function diffPayloads(
+  config: ResolvedSourceConfig,
+  previous: PreviousPayload | null,
+  current: Array<Record<string, unknown>>
+): FieldChange[] {
+  const options = config.changeDetection;
+  const before = previous?.records ?? [];
+  const after = current.map((record) => toJson(record) as Record<string, unknown>);
+  const indexed = Boolean(config.list);
+  const changes: FieldChange[] = [];
+
+  for (let index = 0; index < Math.max(before.length, after.length); index += 1) {
+    const previousRecord = before[index];
+    const currentRecord = after[index];
+    if (indexed && (!previousRecord || !currentRecord)) {
+      changes.push({ field: '*', index, previous: previousRecord ?? null, current: currentRecord ?? null });
+      continue;
+    }
+    const fields =
+      options.mode === 'fields'
+        ? options.fields
+        : [...new Set([...Object.keys(previousRecord ?? {}), ...Object.keys(currentRecord ?? {})])];
+
+    for (const field of fields) {
+      const previousValue = previousRecord?.[field] ?? null;
+      const currentValue = currentRecord?.[field] ?? null;
+      if (!valuesEqual(previousValue, currentValue, options.tolerance)) {
+        changes.push({
+          field,
+          ...(indexed ? { index } : {}),
+          previous: previousValue,
+          current: currentValue
+        });
+      }
+    }
+  }
+
+  return changes;
+}
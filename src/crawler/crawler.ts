@@ -1,18 +1,177 @@
-import { chromium, Browser } from 'playwright';
-import { PrismaClient, CrawlStatus } from '@prisma/client';
-import { ResolvedSourceConfig, applyParsers } from '../config';
+import { randomUUID } from 'crypto';
+import { Locator, Page } from 'playwright';
+import { PrismaClient, CrawlStatus, SourceData } from '@prisma/client';
+import { BrowserConfig, ResolvedSourceConfig, SelectorCandidate } from '../config';
+import { crawlLeaseKey } from '../db/leases';
 import { eventBus } from '../shared/eventBus';
+import { runActions } from './actions';
+import { RunArtifacts } from './artifacts';
+import { authContextOptions, openAuthenticatedPage, saveSession } from './auth';
+import { browserPool } from './browserPool';
+import { diffPayloads, loadPreviousPayload } from './changeDetection';
+import { fetchHttpRaws } from './httpFetcher';
+import { locate, locateCandidate } from './locators';
+import { ExtractedRecord, RawRecord, buildRecords } from './records';
+import { SelectorOutcomes, recordSelectorChecks } from './selectorHealth';
 
-let browserInstance: Browser | null = null;
+async function readSelector(locator: Locator, selector: Pick<SelectorCandidate, 'attribute'>) {
+  const element = locator.first();
+  const value = selector.attribute ? await element.getAttribute(selector.attribute) : await element.textContent();
+  return value?.toString().trim() ?? null;
+}
 
-async function getBrowser(headless: boolean) {
-  if (!browserInstance) {
-    browserInstance = await chromium.launch({ headless });
+async function extractPageFields(page: Page, config: ResolvedSourceConfig, outcomes: SelectorOutcomes) {
+  const raw: RawRecord = {};
+  for (const selector of config.selectorList) {
+    try {
+      const match = await locateCandidate(page, selector, config.browser.timeouts.actionMs);
+      if (!match) {
+        throw new Error(`No candidate matched within ${config.browser.timeouts.actionMs}ms`);
+      }
+      raw[selector.field] = await readSelector(match.locator, match);
+      outcomes.record(selector.field, match.candidate);
+    } catch (error) {
+      console.error(`[crawl] selector failed for ${config.id} field ${selector.field}:`, error);
+      eventBus.emit('selector:failure', { sourceId: config.id, field: selector.field });
+      outcomes.record(selector.field, null);
+      raw[selector.field] = null;
+    }
   }
-  return browserInstance;
+  return raw;
+}
+
+// Items are already attached once the container matched, so missing fields are read as null
+// instead of waiting for the action timeout on every item.
+async function extractItemFields(
+  item: Locator,
+  config: ResolvedSourceConfig,
+  index: number,
+  outcomes: SelectorOutcomes
+) {
+  const raw: RawRecord = {};
+  for (const selector of config.selectorList) {
+    try {
+      const match = await locateCandidate(item, selector);
+      raw[selector.field] = match ? await readSelector(match.locator, match) : null;
+      outcomes.record(selector.field, match?.candidate ?? null);
+      if (!match) {
+        eventBus.emit('selector:failure', { sourceId: config.id, field: selector.field });
+      }
+    } catch (error) {
+      console.error(`[crawl] selector failed for ${config.id} item ${index} field ${selector.field}:`, error);
+      eventBus.emit('selector:failure', { sourceId: config.id, field: selector.field });
+      outcomes.record(selector.field, null);
+      raw[selector.field] = null;
+    }
+  }
+  return raw;
+}
+
+export async function extractPageRaws(
+  page: Page,
+  config: ResolvedSourceConfig,
+  outcomes: SelectorOutcomes
+): Promise<RawRecord[]> {
+  if (!config.list) {
+    return [await extractPageFields(page, config, outcomes)];
+  }
+
+  const container = locate(page, config.list);
+  await container.first().waitFor({ state: 'attached', timeout: config.browser.timeouts.actionMs });
+  const items = await container.all();
+  const limited = config.list.maxItems ? items.slice(0, config.list.maxItems) : items;
+
+  const raws: RawRecord[] = [];
+  for (const [index, item] of limited.entries()) {
+    raws.push(await extractItemFields(item, config, index, outcomes));
+  }
+  return raws;
+}
+
+async function fetchBrowserRaws(
+  prisma: PrismaClient,
+  config: ResolvedSourceConfig,
+  outcomes: SelectorOutcomes,
+  artifacts: RunArtifacts | null
+) {
+  const contextOptions = await authContextOptions(prisma, config);
+  const lease = await browserPool.acquire(config, { context: contextOptions });
+  try {
+    const { page } = lease;
+    artifacts?.attach(page);
+    if (config.auth) {
+      await openAuthenticatedPage(prisma, page, config, lease.reused || Boolean(contextOptions.storageState));
+      await artifacts?.startTrace(lease.context);
+    } else {
+      await artifacts?.startTrace(lease.context);
+      await page.goto(config.url, { timeout: config.browser.timeouts.navigationMs, waitUntil: 'networkidle' });
+    }
+    await runActions(page, config);
+    const raws = await extractPageRaws(page, config, outcomes);
+    if (config.auth) {
+      await saveSession(prisma, config, lease.context);
+    }
+    return raws;
+  } finally {
+    await artifacts?.capture(lease.page, lease.context);
+    await lease.release();
+  }
+}
+
+async function persistRecords(
+  prisma: PrismaClient,
+  config: ResolvedSourceConfig,
+  records: ExtractedRecord[],
+  scrapedAt: Date
+): Promise<SourceData[]> {
+  if (config.list?.mode === 'array') {
+    const row = await prisma.sourceData.create({
+      data: {
+        sourceId: config.id,
+        raw: records.map((record) => record.raw),
+        parsed: records.map((record) => record.parsed),
+        scrapedAt,
+        timestamp: records[0]?.timestamp
+      }
+    });
+    return [row];
+  }
+
+  if (config.list?.mode === 'rows') {
+    const batchId = randomUUID();
+    return prisma.$transaction(
+      records.map((record) =>
+        prisma.sourceData.create({
+          data: {
+            sourceId: config.id,
+            raw: record.raw,
+            parsed: record.parsed,
+            scrapedAt,
+            timestamp: record.timestamp,
+            batchId,
+            itemIndex: record.index
+          }
+        })
+      )
+    );
+  }
+
+  const [record] = records;
+  const row = await prisma.sourceData.create({
+    data: {
+      sourceId: config.id,
+      raw: record.raw,
+      parsed: record.parsed,
+      scrapedAt,
+      timestamp: record.timestamp
+    }
+  });
+  return [row];
 }
 
-export async function crawlSource(prisma: PrismaClient, config: ResolvedSourceConfig) {
+// `signal` is aborted when shutdown gives up on the crawl: its run is already marked ABORTED, so it
+// stores nothing more and records neither a status nor a failure.
+export async function crawlSource(prisma: PrismaClient, config: ResolvedSourceConfig, signal?: AbortSignal) {
   const startedAt = new Date();
   console.info(`[crawl] starting ${config.id} at ${startedAt.toISOString()}`);
   eventBus.emit('crawl:start', { sourceId: config.id, at: startedAt });
@@ -35,65 +194,53 @@ export async function crawlSource(prisma: PrismaClient, config: ResolvedSourceCo
     data: { lastRunAt: startedAt, lastStatus: CrawlStatus.RUNNING }
   });
 
-  let context: Awaited<ReturnType<Browser['newContext']>> | null = null;
+  const artifacts = RunArtifacts.forSource(config);
   try {
-    const browser = await getBrowser(config.browser.headless);
-    context = await browser.newContext({
-      userAgent: config.browser.userAgent,
-      viewport: config.browser.viewport
-    });
-    const page = await context.newPage();
-    await page.goto(config.url, { timeout: config.browser.timeouts.navigationMs, waitUntil: 'networkidle' });
-
-    const raw: Record<string, unknown> = {};
-    for (const selector of config.selectorList) {
-      const locator = selector.css ? page.locator(selector.css) : page.locator(`xpath=${selector.xpath}`);
-      try {
-        await locator.first().waitFor({ state: 'attached', timeout: config.browser.timeouts.actionMs });
-        const element = locator.first();
-        const value = selector.attribute ? await element.getAttribute(selector.attribute) : await element.textContent();
-        raw[selector.field] = value?.toString().trim() ?? null;
-      } catch (error) {
-        console.error(`[crawl] selector failed for ${config.id} field ${selector.field}:`, error);
-        raw[selector.field] = null;
-      }
+    const outcomes = new SelectorOutcomes();
+    const raws =
+      config.kind === 'http'
+        ? await fetchHttpRaws(config, outcomes)
+        : await fetchBrowserRaws(prisma, config, outcomes, artifacts);
+    if (signal?.aborted) {
+      throw new Error('Crawl aborted by shutdown');
     }
+    await recordSelectorChecks(prisma, config, outcomes.list());
+    const records = buildRecords(config, raws);
+    const failedFields = [...new Set(records.flatMap((record) => record.failedFields))];
+    const status = failedFields.length ? CrawlStatus.PARTIAL : CrawlStatus.SUCCESS;
 
-    const parsed = applyParsers(raw, config.parse);
-    const output: Record<string, unknown> = {};
-    for (const key of Object.keys(config.outputSchema)) {
-      output[key] = parsed[key] ?? raw[key] ?? null;
-    }
-    const validated = config.outputParser.parse(output);
+    const detectChanges = config.changeDetection.mode !== 'always';
+    const previous = detectChanges ? await loadPreviousPayload(prisma, config) : null;
+    const changes = detectChanges ? diffPayloads(config, previous, records.map((record) => record.parsed)) : null;
+    const unchangedRowIds = previous && changes?.length === 0 ? previous.rowIds : null;
 
+    let rows: SourceData[] = [];
     const scrapedAt = new Date();
-    const timestampCandidate = validated.timestamp ?? parsed.timestamp ?? null;
-    let normalizedTimestamp: Date | undefined;
-    if (timestampCandidate) {
-      const maybeDate =
-        timestampCandidate instanceof Date ? timestampCandidate : new Date(String(timestampCandidate));
-      normalizedTimestamp = Number.isNaN(maybeDate.getTime()) ? undefined : maybeDate;
+    if (unchangedRowIds) {
+      await prisma.sourceData.updateMany({
+        where: { id: { in: unchangedRowIds } },
+        data: { confirmedAt: scrapedAt }
+      });
+    } else {
+      rows = await persistRecords(prisma, config, records, scrapedAt);
     }
 
-    const dataRow = await prisma.sourceData.create({
-      data: {
-        sourceId: config.id,
-        raw,
-        parsed: validated,
-        scrapedAt,
-        timestamp: normalizedTimestamp
-      }
-    });
-
     const finishedAt = new Date();
     const durationMs = finishedAt.getTime() - startedAt.getTime();
-    console.info(`[crawl] finished ${config.id} in ${durationMs}ms`);
+    const failedSuffix = failedFields.length ? `; failed optional fields: ${failedFields.join(', ')}` : '';
+    console.info(
+      unchangedRowIds
+        ? `[crawl] finished ${config.id} in ${durationMs}ms (unchanged${failedSuffix})`
+        : `[crawl] finished ${config.id} in ${durationMs}ms (${rows.length} row(s)${failedSuffix})`
+    );
 
-    await prisma.sourceStatus.create({
+    // Optional-field failures still store the valid fields and do not count toward failureLimit.
+    const statusRow = await prisma.sourceStatus.create({
       data: {
         sourceId: config.id,
-        status: CrawlStatus.SUCCESS,
-        message: `Completed in ${durationMs}ms`,
+        status,
+        message:
+          (unchangedRowIds ? `Unchanged; confirmed in ${durationMs}ms` : `Completed in ${durationMs}ms`) + failedSuffix,
         runAt: finishedAt,
         attempts: existingFailures
       }
@@ -101,14 +248,45 @@ export async function crawlSource(prisma: PrismaClient, config: ResolvedSourceCo
 
     await prisma.source.update({
       where: { id: config.id },
-      data: { lastStatus: CrawlStatus.SUCCESS, lastRunAt: finishedAt, failureCount: 0 }
+      data: { lastStatus: status, lastRunAt: finishedAt, failureCount: 0 }
     });
+    if (artifacts?.keepOnSuccess) {
+      await artifacts.save(prisma, statusRow.id);
+    } else {
+      await artifacts?.discard();
+    }
 
-    eventBus.emit(`source:${config.id}`, { type: 'data', sourceId: config.id, payload: dataRow });
-    eventBus.emit('source_data:new', { sourceId: config.id, data: dataRow });
-    eventBus.emit('crawl:finish', { sourceId: config.id, durationMs });
+    if (unchangedRowIds) {
+      eventBus.emit('source_data:confirmed', { sourceId: config.id, rowIds: unchangedRowIds, confirmedAt: scrapedAt });
+    } else {
+      if (config.list?.mode === 'rows') {
+        const batchId = rows[0]?.batchId;
+        eventBus.emit(`source:${config.id}`, { type: 'batch', sourceId: config.id, batchId, payload: rows });
+      } else {
+        eventBus.emit(`source:${config.id}`, { type: 'data', sourceId: config.id, payload: rows[0] });
+      }
+      if (changes) {
+        eventBus.emit(`source:${config.id}`, { type: 'diff', sourceId: config.id, changes });
+      }
+      for (const dataRow of rows) {
+        eventBus.emit('source_data:new', { sourceId: config.id, data: dataRow });
+      }
+    }
+    eventBus.emit('crawl:finish', {
+      sourceId: config.id,
+      durationMs,
+      rows: rows.length,
+      changed: !unchangedRowIds,
+      failedFields,
+      records: records.map((record) => record.parsed)
+    });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
+    if (signal?.aborted) {
+      console.warn(`[crawl] ${config.id} aborted by shutdown: ${message}`);
+      await artifacts?.discard();
+      throw error;
+    }
     console.error(`[crawl] error for ${config.id}: ${message}`);
 
     const updated = await prisma.source.update({
@@ -120,7 +298,7 @@ export async function crawlSource(prisma: PrismaClient, config: ResolvedSourceCo
       }
     });
 
-    await prisma.sourceStatus.create({
+    const statusRow = await prisma.sourceStatus.create({
       data: {
         sourceId: config.id,
         status: CrawlStatus.ERROR,
@@ -128,20 +306,62 @@ export async function crawlSource(prisma: PrismaClient, config: ResolvedSourceCo
         attempts: updated.failureCount
       }
     });
+    if (artifacts?.keepOnFailure) {
+      await artifacts.save(prisma, statusRow.id);
+    } else {
+      await artifacts?.discard();
+    }
 
     eventBus.emit(`source:${config.id}`, { type: 'error', sourceId: config.id, error: message });
-    eventBus.emit('crawl:error', { sourceId: config.id, error: message });
+    eventBus.emit('crawl:error', {
+      sourceId: config.id,
+      error: message,
+      durationMs: Date.now() - startedAt.getTime()
+    });
     throw error;
-  } finally {
-    if (context) {
-      await context.close();
+  }
+}
+
+// Launches (or reuses) a pooled browser for every distinct engine and launch option in use so
+// readiness probes fail when one of them cannot start.
+export async function checkBrowser(configs: BrowserConfig[]) {
+  const distinct = new Map(configs.map((config) => [JSON.stringify([config.engine, config.headless, config.args]), config]));
+  const browsers = [];
+  for (const config of distinct.values()) {
+    browsers.push(await browserPool.check(config));
+  }
+  return { browsers, pool: browserPool.stats() };
+}
+
+// A crawl that was in flight when its process stopped leaves the source at RUNNING. Those runs are
+// marked ABORTED so the status history does not show them as running forever. Sources under a live
+// crawl lease are still being crawled and are skipped, unless the lease belongs to `abandonedHolder`
+// (this instance, at startup or when shutdown gives up on its crawls).
+export async function reconcileAbortedCrawls(prisma: PrismaClient, abandonedHolder?: string) {
+  const leases = await prisma.lease.findMany({
+    where: { expiresAt: { gt: new Date() }, ...(abandonedHolder ? { holder: { not: abandonedHolder } } : {}) },
+    select: { key: true }
+  });
+  const crawling = new Set(leases.map((lease) => lease.key));
+  const running = await prisma.source.findMany({ where: { lastStatus: CrawlStatus.RUNNING }, select: { id: true } });
+  const orphaned = running.filter(({ id }) => !crawling.has(crawlLeaseKey(id)));
+  for (const { id } of orphaned) {
+    const run = await prisma.sourceStatus.findFirst({
+      where: { sourceId: id, status: CrawlStatus.RUNNING },
+      orderBy: { id: 'desc' }
+    });
+    if (run) {
+      await prisma.sourceStatus.update({
+        where: { id: run.id },
+        data: { status: CrawlStatus.ABORTED, message: 'Aborted: the relay stopped before the crawl finished' }
+      });
     }
+    await prisma.source.update({ where: { id }, data: { lastStatus: CrawlStatus.ABORTED } });
+    console.warn(`[crawl] marked the interrupted crawl of ${id} as aborted`);
   }
+  return orphaned.length;
 }
 
 export async function shutdownCrawler() {
-  if (browserInstance) {
-    await browserInstance.close();
-    browserInstance = null;
-  }
+  await browserPool.shutdown();
 }
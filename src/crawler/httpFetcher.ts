@@ -0,0 +1,160 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { JSONPath } from 'jsonpath-plus';
+import xpath from 'xpath';
+import { Prisma } from '@prisma/client';
+import { ResolvedSelector, ResolvedSourceConfig } from '../config';
+import { eventBus } from '../shared/eventBus';
+import { resolveAuthCookieHeader, resolveAuthHeaders } from './auth';
+import { RawRecord } from './records';
+import { SelectorOutcomes } from './selectorHealth';
+
+type SelectorTarget = { xpath?: string; jsonPath?: string };
+
+export interface HttpDocument {
+  format: 'json' | 'xml';
+  root: unknown;
+}
+
+function hasHeader(headers: Record<string, string>, name: string) {
+  return Object.keys(headers).some((key) => key.toLowerCase() === name);
+}
+
+function isXmlNode(value: unknown): value is Node {
+  return typeof value === 'object' && value !== null && 'nodeType' in value;
+}
+
+export async function fetchHttpBody(config: ResolvedSourceConfig): Promise<string> {
+  const { method, headers, body, timeoutMs } = config.request;
+  const requestHeaders: Record<string, string> = { ...headers };
+  if (config.auth) {
+    Object.assign(requestHeaders, resolveAuthHeaders(config.auth));
+    const cookieHeader = resolveAuthCookieHeader(config, config.auth);
+    if (cookieHeader) {
+      requestHeaders.cookie = cookieHeader;
+    }
+  }
+  let requestBody: string | undefined;
+
+  if (body !== undefined) {
+    requestBody = typeof body === 'string' ? body : JSON.stringify(body);
+    if (typeof body !== 'string' && !hasHeader(requestHeaders, 'content-type')) {
+      requestHeaders['content-type'] = 'application/json';
+    }
+  }
+  if (config.browser.userAgent && !hasHeader(requestHeaders, 'user-agent')) {
+    requestHeaders['user-agent'] = config.browser.userAgent;
+  }
+
+  const response = await fetch(config.url, {
+    method,
+    headers: requestHeaders,
+    body: requestBody,
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText} from ${config.url}`);
+  }
+
+  return response.text();
+}
+
+export function parseHttpDocument(config: ResolvedSourceConfig, text: string): HttpDocument {
+  const { format } = config.request;
+  if (format === 'xml') {
+    const document = new DOMParser().parseFromString(text, 'text/xml');
+    return { format, root: document };
+  }
+
+  try {
+    return { format, root: JSON.parse(text) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Response from ${config.url} is not valid JSON: ${message}`);
+  }
+}
+
+export async function fetchHttpDocument(config: ResolvedSourceConfig): Promise<HttpDocument> {
+  return parseHttpDocument(config, await fetchHttpBody(config));
+}
+
+// JSONPath is evaluated against the parsed body (or a list item); XPath against the XML document
+// (or a list item node), so relative expressions address fields inside each item.
+export function selectMatches(format: HttpDocument['format'], root: unknown, target: SelectorTarget): unknown[] {
+  if (format === 'json') {
+    return JSONPath({ path: target.jsonPath!, json: root as object, wrap: true }) ?? [];
+  }
+  const result = xpath.select(target.xpath!, root as Node);
+  if (Array.isArray(result)) return result;
+  return result == null ? [] : [result];
+}
+
+// Returns the matches of the first candidate (primary, then fallbacks) that matches anything.
+export function selectCandidate(format: HttpDocument['format'], root: unknown, selector: ResolvedSelector) {
+  for (const [index, candidate] of selector.candidates.entries()) {
+    const matches = selectMatches(format, root, candidate);
+    if (matches.length) {
+      return { matches, candidate: index, attribute: candidate.attribute };
+    }
+  }
+  return null;
+}
+
+export function toRawValue(value: unknown, attribute?: string): Prisma.JsonValue {
+  if (value == null) return null;
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (isXmlNode(value)) {
+    if (attribute && 'getAttribute' in value) {
+      return (value as Element).getAttribute(attribute)?.trim() ?? null;
+    }
+    return value.textContent?.trim() ?? null;
+  }
+  return value as Prisma.JsonValue;
+}
+
+function extractFields(
+  config: ResolvedSourceConfig,
+  format: HttpDocument['format'],
+  root: unknown,
+  outcomes: SelectorOutcomes
+) {
+  const raw: RawRecord = {};
+  for (const selector of config.selectorList) {
+    try {
+      const match = selectCandidate(format, root, selector);
+      raw[selector.field] = match ? toRawValue(match.matches[0], match.attribute) : null;
+      outcomes.record(selector.field, match?.candidate ?? null);
+      if (!match) {
+        eventBus.emit('selector:failure', { sourceId: config.id, field: selector.field });
+      }
+    } catch (error) {
+      console.error(`[crawl] selector failed for ${config.id} field ${selector.field}:`, error);
+      eventBus.emit('selector:failure', { sourceId: config.id, field: selector.field });
+      outcomes.record(selector.field, null);
+      raw[selector.field] = null;
+    }
+  }
+  return raw;
+}
+
+export function extractHttpRaws(
+  config: ResolvedSourceConfig,
+  { format, root }: HttpDocument,
+  outcomes: SelectorOutcomes
+): RawRecord[] {
+  if (!config.list) {
+    return [extractFields(config, format, root, outcomes)];
+  }
+
+  let items = selectMatches(format, root, config.list);
+  // `$.items` and `$.items[*]` should both address the elements of the array.
+  if (format === 'json' && items.length === 1 && Array.isArray(items[0])) {
+    items = items[0];
+  }
+  const limited = config.list.maxItems ? items.slice(0, config.list.maxItems) : items;
+  return limited.map((item) => extractFields(config, format, item, outcomes));
+}
+
+export async function fetchHttpRaws(config: ResolvedSourceConfig, outcomes: SelectorOutcomes): Promise<RawRecord[]> {
+  return extractHttpRaws(config, await fetchHttpDocument(config), outcomes);
+}
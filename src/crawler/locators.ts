@@ -0,0 +1,25 @@
+import { Locator, Page } from 'playwright';
+import { ResolvedSelector } from '../config';
+
+export function locate(scope: Page | Locator, selector: { css?: string; xpath?: string }) {
+  return selector.css ? scope.locator(selector.css) : scope.locator(`xpath=${selector.xpath}`);
+}
+
+// Tries a field's candidates in order. Only the primary waits up to `waitMs` to attach; fallbacks
+// are checked against what is already on the page so a drifted field costs one timeout, not one per candidate.
+export async function locateCandidate(scope: Page | Locator, selector: ResolvedSelector, waitMs?: number) {
+  for (const [index, candidate] of selector.candidates.entries()) {
+    const locator = locate(scope, candidate);
+    if (index === 0 && waitMs) {
+      await locator
+        .first()
+        .waitFor({ state: 'attached', timeout: waitMs })
+        .catch(() => undefined);
+    }
+    const count = await locator.count();
+    if (count > 0) {
+      return { locator, candidate: index, count, attribute: candidate.attribute };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,99 @@
+import { Prisma } from '@prisma/client';
+import { ResolvedSourceConfig, applyParsers } from '../config';
+
+export type RawRecord = Record<string, Prisma.JsonValue>;
+
+export interface ExtractedRecord {
+  index: number;
+  raw: RawRecord;
+  parsed: Prisma.InputJsonObject;
+  timestamp?: Date;
+  // Optional fields that were missing or invalid and were stored as null (or their default).
+  failedFields: string[];
+}
+
+// Validates field by field so optional fields degrade to null/default; only required fields
+// reject the record.
+function validateOutput(
+  config: ResolvedSourceConfig,
+  output: Record<string, unknown>,
+  parseErrors: Record<string, string>
+) {
+  const validated: Record<string, unknown> = {};
+  const failedFields: string[] = [];
+  const requiredErrors: string[] = [];
+
+  for (const [key, field] of Object.entries(config.outputFields)) {
+    const result = config.outputParser.shape[key].safeParse(output[key]);
+    const missing = output[key] == null && field.default === undefined && !field.nullable;
+    const parseError = parseErrors[key];
+    if (result.success && !missing && !parseError) {
+      validated[key] = result.data;
+      continue;
+    }
+
+    const reason =
+      parseError ?? (result.success ? 'missing' : result.error.issues.map((issue) => issue.message).join(', '));
+    if (field.required) {
+      requiredErrors.push(`${key}: ${reason}`);
+      continue;
+    }
+    if (parseError) {
+      console.warn(`[crawl] optional field ${key} of ${config.id} failed: ${parseError}`);
+    }
+    failedFields.push(key);
+    validated[key] = field.default ?? null;
+  }
+
+  if (requiredErrors.length) {
+    throw new Error(`Required field(s) failed validation for ${config.id}: ${requiredErrors.join('; ')}`);
+  }
+  return { validated, failedFields };
+}
+
+function buildRecord(config: ResolvedSourceConfig, raw: RawRecord, index: number): ExtractedRecord {
+  const { parsed, errors } = applyParsers(raw, config.parse);
+  const output: Record<string, unknown> = {};
+  for (const key of Object.keys(config.outputSchema)) {
+    output[key] = parsed[key] ?? raw[key] ?? null;
+  }
+  const { validated, failedFields } = validateOutput(config, output, errors);
+
+  const timestampCandidate = validated.timestamp ?? parsed.timestamp ?? null;
+  let normalizedTimestamp: Date | undefined;
+  if (timestampCandidate) {
+    const maybeDate =
+      timestampCandidate instanceof Date ? timestampCandidate : new Date(String(timestampCandidate));
+    normalizedTimestamp = Number.isNaN(maybeDate.getTime()) ? undefined : maybeDate;
+  }
+
+  return { index, raw, parsed: validated as Prisma.InputJsonObject, timestamp: normalizedTimestamp, failedFields };
+}
+
+// Runs raw extractor output through the parse rules and output schema. Single-record sources fail
+// on the first invalid record; list sources skip invalid items and fail only when none validate.
+export function buildRecords(config: ResolvedSourceConfig, raws: RawRecord[]): ExtractedRecord[] {
+  if (!config.list) {
+    return [buildRecord(config, raws[0] ?? {}, 0)];
+  }
+
+  const records: ExtractedRecord[] = [];
+  const failures: unknown[] = [];
+  for (const [index, raw] of raws.entries()) {
+    try {
+      records.push(buildRecord(config, raw, index));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[crawl] item ${index} failed validation for ${config.id}: ${message}`);
+      failures.push(error);
+    }
+  }
+
+  if (!records.length) {
+    throw failures[0] ?? new Error('List container matched no items');
+  }
+  if (failures.length) {
+    console.warn(`[crawl] ${config.id} skipped ${failures.length} of ${raws.length} list item(s)`);
+  }
+  return records;
+}
@@ -0,0 +1,139 @@
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+const ROBOTS_ERROR_TTL_MS = 5 * 60 * 1000;
+const ROBOTS_TIMEOUT_MS = 10_000;
+export const ROBOTS_USER_AGENT = process.env.ROBOTS_USER_AGENT ?? 'CosmicDataRelay';
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  pattern: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+interface RobotsPolicy {
+  // Set when robots.txt could not be read; per RFC 9309 a server error disallows everything.
+  unreachable?: string;
+  groups: RobotsGroup[];
+  expiresAt: number;
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  reason?: string;
+  crawlDelayMs?: number;
+}
+
+const cache = new Map<string, RobotsPolicy>();
+
+function toPattern(rulePath: string) {
+  const anchored = rulePath.endsWith('$');
+  const body = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .replace(/[.+?^{}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+export function parseRobots(contents: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of contents.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    collectingAgents = false;
+    if (!current) continue;
+
+    if ((key === 'allow' || key === 'disallow') && value) {
+      current.rules.push({ allow: key === 'allow', path: value, pattern: toPattern(value) });
+    } else if (key === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelaySeconds = seconds;
+      }
+    }
+  }
+  return groups;
+}
+
+// Groups naming our product token win over `*`; the longest matching rule decides, and Allow wins ties.
+export function evaluateRobots(groups: RobotsGroup[], pathAndQuery: string, userAgent = ROBOTS_USER_AGENT): RobotsVerdict {
+  const token = userAgent.toLowerCase();
+  const specific = groups.filter((group) => group.agents.some((agent) => agent !== '*' && token.includes(agent)));
+  const applicable = specific.length ? specific : groups.filter((group) => group.agents.includes('*'));
+
+  let best: RobotsRule | null = null;
+  for (const rule of applicable.flatMap((group) => group.rules)) {
+    if (!rule.pattern.test(pathAndQuery)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+
+  const delays = applicable
+    .map((group) => group.crawlDelaySeconds)
+    .filter((delay): delay is number => delay !== undefined);
+  const crawlDelayMs = delays.length ? Math.max(...delays) * 1000 : undefined;
+
+  if (best && !best.allow) {
+    return { allowed: false, reason: `Disallowed by robots.txt rule "Disallow: ${best.path}"`, crawlDelayMs };
+  }
+  return { allowed: true, crawlDelayMs };
+}
+
+async function loadPolicy(origin: string, userAgent: string): Promise<RobotsPolicy> {
+  const cached = cache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  let policy: RobotsPolicy;
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'user-agent': userAgent },
+      signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS)
+    });
+    if (response.ok) {
+      policy = { groups: parseRobots(await response.text()), expiresAt: Date.now() + ROBOTS_TTL_MS };
+    } else if (response.status >= 400 && response.status < 500) {
+      policy = { groups: [], expiresAt: Date.now() + ROBOTS_TTL_MS };
+    } else {
+      policy = {
+        groups: [],
+        unreachable: `robots.txt returned HTTP ${response.status}`,
+        expiresAt: Date.now() + ROBOTS_ERROR_TTL_MS
+      };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    policy = { groups: [], unreachable: `robots.txt unreachable: ${message}`, expiresAt: Date.now() + ROBOTS_ERROR_TTL_MS };
+  }
+
+  cache.set(origin, policy);
+  return policy;
+}
+
+export async function checkRobots(url: string, userAgent = ROBOTS_USER_AGENT): Promise<RobotsVerdict> {
+  const target = new URL(url);
+  const policy = await loadPolicy(target.origin, userAgent);
+  if (policy.unreachable) {
+    return { allowed: false, reason: `${policy.unreachable}; treating ${target.host} as disallowed` };
+  }
+  return evaluateRobots(policy.groups, `${target.pathname}${target.search}`, userAgent);
+}
@@ -0,0 +1,122 @@
+import { PrismaClient } from '@prisma/client';
+import { ResolvedSourceConfig } from '../config';
+import { eventBus } from '../shared/eventBus';
+
+// Checks kept per field; success rates and candidate counts are computed over this window.
+const HEALTH_WINDOW = 50;
+
+export type SelectorHealthStatus = 'ok' | 'fallback' | 'failing';
+
+export interface SelectorOutcome {
+  field: string;
+  // Index into the field's candidates (0 = primary) that matched last, or null when none matched.
+  candidate: number | null;
+  matches: number;
+  attempts: number;
+}
+
+// Collects which candidate matched for each field during one crawl. List sources record one
+// attempt per item; the highest fallback index used is kept so drift on any item is visible.
+export class SelectorOutcomes {
+  private outcomes = new Map<string, SelectorOutcome>();
+
+  record(field: string, candidate: number | null) {
+    const outcome = this.outcomes.get(field) ?? { field, candidate: null, matches: 0, attempts: 0 };
+    outcome.attempts += 1;
+    if (candidate !== null) {
+      outcome.matches += 1;
+      outcome.candidate = Math.max(outcome.candidate ?? 0, candidate);
+    }
+    this.outcomes.set(field, outcome);
+  }
+
+  list() {
+    return [...this.outcomes.values()];
+  }
+}
+
+function statusOf(check: { candidate: number | null; matches: number }): SelectorHealthStatus {
+  if (!check.matches || check.candidate === null) return 'failing';
+  return check.candidate > 0 ? 'fallback' : 'ok';
+}
+
+export async function recordSelectorChecks(prisma: PrismaClient, config: ResolvedSourceConfig, outcomes: SelectorOutcome[]) {
+  for (const outcome of outcomes) {
+    const previous = await prisma.selectorCheck.findFirst({
+      where: { sourceId: config.id, field: outcome.field },
+      orderBy: { id: 'desc' }
+    });
+    await prisma.selectorCheck.create({
+      data: {
+        sourceId: config.id,
+        field: outcome.field,
+        candidate: outcome.candidate,
+        matches: outcome.matches,
+        attempts: outcome.attempts
+      }
+    });
+
+    const [boundary] = await prisma.selectorCheck.findMany({
+      where: { sourceId: config.id, field: outcome.field },
+      orderBy: { id: 'desc' },
+      skip: HEALTH_WINDOW,
+      take: 1,
+      select: { id: true }
+    });
+    if (boundary) {
+      await prisma.selectorCheck.deleteMany({
+        where: { sourceId: config.id, field: outcome.field, id: { lte: boundary.id } }
+      });
+    }
+
+    // Only transitions are reported: a field that starts failing or moves to another fallback.
+    const status = statusOf(outcome);
+    const previousStatus = previous ? statusOf(previous) : 'ok';
+    if (status !== 'ok' && (status !== previousStatus || outcome.candidate !== previous?.candidate)) {
+      console.warn(`[selectors] ${config.id} field ${outcome.field} is ${status} (candidate ${outcome.candidate ?? 'none'})`);
+      eventBus.emit('selector:drift', {
+        sourceId: config.id,
+        field: outcome.field,
+        status,
+        previousStatus,
+        candidate: outcome.candidate,
+        previousCandidate: previous?.candidate ?? null
+      });
+    }
+  }
+}
+
+export async function getSelectorHealth(prisma: PrismaClient, config: ResolvedSourceConfig) {
+  const checks = await prisma.selectorCheck.findMany({
+    where: { sourceId: config.id },
+    orderBy: { id: 'desc' },
+    take: HEALTH_WINDOW * Math.max(config.selectorList.length, 1)
+  });
+
+  return config.selectorList.map((selector) => {
+    const fieldChecks = checks.filter((check) => check.field === selector.field).slice(0, HEALTH_WINDOW);
+    const [latest] = fieldChecks;
+    const candidateCounts: Record<string, number> = {};
+    for (const check of fieldChecks) {
+      const key = check.candidate === null ? 'none' : String(check.candidate);
+      candidateCounts[key] = (candidateCounts[key] ?? 0) + 1;
+    }
+    const status = latest ? statusOf(latest) : null;
+
+    return {
+      field: selector.field,
+      status,
+      flagged: status === 'fallback' || status === 'failing',
+      candidate: latest?.candidate ?? null,
+      matchedSelector: latest?.candidate != null ? selector.candidates[latest.candidate] ?? null : null,
+      lastMatches: latest?.matches ?? null,
+      lastAttempts: latest?.attempts ?? null,
+      lastCheckedAt: latest?.checkedAt ?? null,
+      checks: fieldChecks.length,
+      successRate: fieldChecks.length
+        ? fieldChecks.filter((check) => check.matches > 0).length / fieldChecks.length
+        : null,
+      candidateCounts
+    };
+  });
+}
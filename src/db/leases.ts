@@ -0,0 +1,74 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { INSTANCE_ID, LEASE_TTL_MS } from '../shared/constants';
+
+export const crawlLeaseKey = (sourceId: string) => `source:${sourceId}`;
+
+export interface Lease {
+  key: string;
+  // Set when a renewal finds the lease expired and taken by another instance.
+  lost: boolean;
+  release(): Promise<void>;
+}
+
+// A lease is taken when its row is missing, expired or already held by this instance, and is renewed
+// every third of the TTL until released. A crashed holder stops renewing, so its leases expire and
+// any instance can take them over.
+export class LeaseManager {
+  constructor(
+    private prisma: PrismaClient,
+    private holder = INSTANCE_ID,
+    private ttlMs = LEASE_TTL_MS
+  ) {}
+
+  async acquire(key: string): Promise<Lease | null> {
+    const now = new Date();
+    const data = { holder: this.holder, acquiredAt: now, expiresAt: new Date(now.getTime() + this.ttlMs) };
+    const taken = await this.prisma.lease.updateMany({
+      where: { key, OR: [{ expiresAt: { lte: now } }, { holder: this.holder }] },
+      data
+    });
+    if (!taken.count) {
+      try {
+        await this.prisma.lease.create({ data: { key, ...data } });
+      } catch (error) {
+        // Another instance created the row first.
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return null;
+        throw error;
+      }
+    }
+    return this.hold(key);
+  }
+
+  // Gives up every lease of this instance, so others can take over without waiting for expiry.
+  async releaseAll() {
+    await this.prisma.lease.deleteMany({ where: { holder: this.holder } });
+  }
+
+  private hold(key: string): Lease {
+    const where = { key, holder: this.holder };
+    const renew = async () => {
+      const { count } = await this.prisma.lease.updateMany({
+        where,
+        data: { expiresAt: new Date(Date.now() + this.ttlMs) }
+      });
+      if (!count && !lease.lost) {
+        lease.lost = true;
+        console.warn(`[leases] lost lease ${key}; another instance may take over`);
+      }
+    };
+    const timer = setInterval(() => {
+      renew().catch((error) => console.error(`[leases] failed to renew ${key}`, error));
+    }, this.ttlMs / 3);
+    timer.unref();
+
+    const lease: Lease = {
+      key,
+      lost: false,
+      release: async () => {
+        clearInterval(timer);
+        await this.prisma.lease.deleteMany({ where });
+      }
+    };
+    return lease;
+  }
+}
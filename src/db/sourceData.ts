@@ -0,0 +1,20 @@
+import { PrismaClient } from '@prisma/client';
+import { retainedSince } from '../retention/retention';
+
+// List sources in `rows` mode store one row per item; the latest value is the whole batch.
+export async function findLatestData(prisma: PrismaClient, sourceId: string, since: Date) {
+  const latest = await prisma.sourceData.findFirst({
+    where: { sourceId, ...retainedSince(since) },
+    orderBy: [{ scrapedAt: 'desc' }, { id: 'desc' }]
+  });
+
+  if (!latest?.batchId) {
+    return latest;
+  }
+
+  const items = await prisma.sourceData.findMany({
+    where: { sourceId, batchId: latest.batchId },
+    orderBy: { itemIndex: 'asc' }
+  });
+  return { batchId: latest.batchId, scrapedAt: latest.scrapedAt, items };
+}
@@ -0,0 +1,68 @@
+import { parseArgs } from 'util';
+import { DEFAULT_SOURCES_DIR, loadSourceFiles } from '../config';
+import { shutdownCrawler } from '../crawler/crawler';
+import { FixtureResult, recordFixture, runFixtures } from './harness';
+
+const USAGE = `Usage:
+  fixtures record <source-id> [--name <fixture>] [--har] [--sources-dir <dir>]
+  fixtures test [source-id...] [--sources-dir <dir>]`;
+
+const show = (value: unknown) => (value === undefined ? '(absent)' : JSON.stringify(value));
+
+function report(results: FixtureResult[]) {
+  for (const result of results) {
+    console.log(`${result.passed ? 'PASS' : 'FAIL'} ${result.sourceId}/${result.fixture}`);
+    if (result.error) {
+      console.log(`  error: ${result.error}`);
+    }
+    for (const field of result.fields.filter((entry) => entry.status === 'fail')) {
+      console.log(`  record ${field.record} ${field.field}: expected ${show(field.expected)}, got ${show(field.actual)}`);
+    }
+  }
+  const failed = results.filter((result) => !result.passed).length;
+  console.log(`${results.length} fixture(s), ${failed} failed`);
+  return failed;
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      name: { type: 'string', default: 'default' },
+      har: { type: 'boolean', default: false },
+      'sources-dir': { type: 'string', default: DEFAULT_SOURCES_DIR }
+    }
+  });
+  const [command, ...sourceIds] = positionals;
+  const sourcesDir = values['sources-dir']!;
+
+  if (command === 'test') {
+    const results = await runFixtures({ sourcesDir, sourceIds });
+    return report(results) ? 1 : 0;
+  }
+
+  if (command === 'record' && sourceIds.length === 1) {
+    const entry = (await loadSourceFiles(sourcesDir)).find((candidate) => candidate.config.id === sourceIds[0]);
+    if (!entry) {
+      console.error(`Unknown source ${sourceIds[0]}`);
+      return 1;
+    }
+    const { dir, expected } = await recordFixture(entry, values.name!, { har: values.har });
+    console.log(`Recorded ${expected.snapshot} snapshot with ${expected.records.length} record(s) to ${dir}`);
+    console.log(JSON.stringify(expected.records, null, 2));
+    return 0;
+  }
+
+  console.error(USAGE);
+  return 2;
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => shutdownCrawler());
@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { z } from 'zod';
+import { DEFAULT_SOURCES_DIR, ResolvedSourceConfig, SourceFileEntry, formatZodError, loadSourceFiles } from '../config';
+import { runActions } from '../crawler/actions';
+import { authContextOptions, openAuthenticatedPage } from '../crawler/auth';
+import { browserPool } from '../crawler/browserPool';
+import { extractPageRaws } from '../crawler/crawler';
+import { extractHttpRaws, fetchHttpBody, parseHttpDocument } from '../crawler/httpFetcher';
+import { RawRecord, buildRecords } from '../crawler/records';
+import { SelectorOutcomes } from '../crawler/selectorHealth';
+
+const EXPECTED_FILE = 'expected.json';
+const HTML_FILE = 'snapshot.html';
+const HAR_FILE = 'snapshot.har';
+// Credentials and session cookies are removed from recorded HARs; replays match requests by URL and method.
+const HAR_SCRUBBED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+
+const fixtureExpectationSchema = z.object({
+  url: z.string(),
+  recordedAt: z.string(),
+  snapshot: z.enum(['html', 'har', 'response']),
+  // Fields whose value depends on the replay time (e.g. relativeTime steps) or is otherwise unstable.
+  ignore: z.array(z.string()).default([]),
+  records: z.array(z.record(z.unknown()))
+});
+
+export type FixtureExpectation = z.infer<typeof fixtureExpectationSchema>;
+export type SnapshotKind = FixtureExpectation['snapshot'];
+
+export interface FieldResult {
+  record: number;
+  field: string;
+  status: 'pass' | 'fail' | 'ignored';
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface FixtureResult {
+  sourceId: string;
+  fixture: string;
+  passed: boolean;
+  error?: string;
+  fields: FieldResult[];
+}
+
+// Fixtures live next to the YAML that defines the source: <dir>/fixtures/<source id>/<fixture name>/.
+export function fixturesDir(entry: SourceFileEntry) {
+  return path.join(path.dirname(entry.filePath), 'fixtures', entry.config.id);
+}
+
+const responseFile = (config: ResolvedSourceConfig) => `response.${config.request.format}`;
+const toPlain = (value: unknown) => JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+
+// Replays the snapshot through the same extraction code as live crawls. Nothing reaches the network:
+// HTML snapshots are served for the main document with every other request aborted (and scripts
+// disabled, since the snapshot is already rendered); HAR snapshots abort requests missing from the HAR.
+async function extractFromSnapshot(config: ResolvedSourceConfig, dir: string, snapshot: SnapshotKind) {
+  const outcomes = new SelectorOutcomes();
+  if (snapshot === 'response') {
+    const text = await fs.promises.readFile(path.join(dir, responseFile(config)), 'utf8');
+    return extractHttpRaws(config, parseHttpDocument(config, text), outcomes);
+  }
+
+  const html = snapshot === 'html' ? await fs.promises.readFile(path.join(dir, HTML_FILE), 'utf8') : null;
+  const lease = await browserPool.acquire(config, { warm: false, context: html ? { javaScriptEnabled: false } : {} });
+  try {
+    const { page } = lease;
+    const navigation = { timeout: config.browser.timeouts.navigationMs };
+    if (html !== null) {
+      await page.route('**/*', (route) =>
+        route.request().isNavigationRequest() && route.request().frame() === page.mainFrame()
+          ? route.fulfill({ status: 200, contentType: 'text/html', body: html })
+          : route.abort()
+      );
+      await page.goto(config.url, { ...navigation, waitUntil: 'load' });
+    } else {
+      await page.routeFromHAR(path.join(dir, HAR_FILE), { notFound: 'abort' });
+      await page.goto(config.url, { ...navigation, waitUntil: 'networkidle' });
+      await runActions(page, config);
+    }
+    return await extractPageRaws(page, config, outcomes);
+  } finally {
+    await lease.release();
+  }
+}
+
+function toRecords(config: ResolvedSourceConfig, raws: RawRecord[]) {
+  return buildRecords(config, raws).map((record) => toPlain(record.parsed));
+}
+
+function compareRecords(expected: FixtureExpectation, actual: Array<Record<string, unknown>>) {
+  const fields: FieldResult[] = [];
+  const count = Math.max(expected.records.length, actual.length);
+  for (let record = 0; record < count; record += 1) {
+    const wanted = expected.records[record] ?? {};
+    const got = actual[record] ?? {};
+    for (const field of new Set([...Object.keys(wanted), ...Object.keys(got)])) {
+      const status = expected.ignore.includes(field)
+        ? 'ignored'
+        : isDeepStrictEqual(wanted[field], got[field])
+          ? 'pass'
+          : 'fail';
+      fields.push({ record, field, status, expected: wanted[field], actual: got[field] });
+    }
+  }
+  return fields;
+}
+
+async function readExpectation(dir: string) {
+  const contents = JSON.parse(await fs.promises.readFile(path.join(dir, EXPECTED_FILE), 'utf8'));
+  const parsed = fixtureExpectationSchema.safeParse(contents);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${EXPECTED_FILE}: ${formatZodError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+export async function replayFixture(entry: SourceFileEntry, fixture: string): Promise<FixtureResult> {
+  const { config } = entry;
+  const dir = path.join(fixturesDir(entry), fixture);
+  try {
+    const expected = await readExpectation(dir);
+    const actual = toRecords(config, await extractFromSnapshot(config, dir, expected.snapshot));
+    const fields = compareRecords(expected, actual);
+    return { sourceId: config.id, fixture, passed: fields.every((field) => field.status !== 'fail'), fields };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { sourceId: config.id, fixture, passed: false, error: message, fields: [] };
+  }
+}
+
+async function listFixtures(entry: SourceFileEntry) {
+  const dir = fixturesDir(entry);
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+  return entries
+    .filter((child) => child.isDirectory() && !child.name.startsWith('.'))
+    .filter((child) => fs.existsSync(path.join(dir, child.name, EXPECTED_FILE)))
+    .map((child) => child.name)
+    .sort();
+}
+
+// Replays every recorded fixture (optionally only for some sources). Intended for the CLI and for
+// test suites: a result with `passed: false` should fail the run.
+export async function runFixtures(options: { sourcesDir?: string; sourceIds?: string[] } = {}) {
+  const entries = await loadSourceFiles(options.sourcesDir ?? DEFAULT_SOURCES_DIR);
+  const selected = options.sourceIds?.length
+    ? entries.filter((entry) => options.sourceIds!.includes(entry.config.id))
+    : entries;
+
+  const results: FixtureResult[] = [];
+  for (const entry of selected) {
+    for (const fixture of await listFixtures(entry)) {
+      results.push(await replayFixture(entry, fixture));
+    }
+  }
+  return results;
+}
+
+interface HarHeader {
+  name: string;
+}
+
+interface HarMessage {
+  headers?: HarHeader[];
+  cookies?: unknown[];
+}
+
+async function scrubHar(config: ResolvedSourceConfig, file: string) {
+  const authHeaders = [...Object.keys(config.auth?.headers ?? {}), ...Object.keys(config.auth?.headersEnv ?? {})];
+  const scrubbed = new Set([...HAR_SCRUBBED_HEADERS, ...authHeaders].map((name) => name.toLowerCase()));
+  const har = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+  for (const entry of har.log?.entries ?? []) {
+    for (const message of [entry.request, entry.response] as Array<HarMessage | undefined>) {
+      if (!message) continue;
+      message.headers = message.headers?.filter((header) => !scrubbed.has(header.name.toLowerCase()));
+      message.cookies = [];
+    }
+  }
+  await fs.promises.writeFile(file, JSON.stringify(har));
+}
+
+async function captureSnapshot(config: ResolvedSourceConfig, dir: string, har: boolean): Promise<SnapshotKind> {
+  if (config.kind === 'http') {
+    await fs.promises.writeFile(path.join(dir, responseFile(config)), await fetchHttpBody(config));
+    return 'response';
+  }
+
+  const harFile = path.join(dir, HAR_FILE);
+  const lease = await browserPool.acquire(config, { warm: false, context: await authContextOptions(null, config) });
+  try {
+    const { page } = lease;
+    // The HAR starts after login, so the login form submission (with its filled secrets) is never recorded.
+    if (config.auth) {
+      await openAuthenticatedPage(null, page, config, false);
+    }
+    if (har) {
+      await page.context().routeFromHAR(harFile, { update: true, updateContent: 'embed' });
+    }
+    if (!config.auth || har) {
+      await page.goto(config.url, { timeout: config.browser.timeouts.navigationMs, waitUntil: 'networkidle' });
+    }
+    await runActions(page, config);
+    if (!har) {
+      await fs.promises.writeFile(path.join(dir, HTML_FILE), await page.content());
+    }
+  } finally {
+    // The HAR is written when the context closes.
+    await lease.release();
+  }
+  if (har) {
+    await scrubHar(config, harFile);
+  }
+  return har ? 'har' : 'html';
+}
+
+// Records a snapshot of the live source and writes the output it replays to as the expected output
+// (keeping the `ignore` list of an earlier recording). Review expected.json before committing it: it
+// captures whatever the config extracts today. The recording is made in a temporary directory that
+// replaces the fixture only once it is complete, so a failed capture leaves the old fixture intact.
+export async function recordFixture(entry: SourceFileEntry, fixture: string, options: { har?: boolean } = {}) {
+  const { config } = entry;
+  const dir = path.join(fixturesDir(entry), fixture);
+  const staging = path.join(fixturesDir(entry), `.${fixture}.recording`);
+  const previous = await readExpectation(dir).catch(() => null);
+  await fs.promises.rm(staging, { recursive: true, force: true });
+  await fs.promises.mkdir(staging, { recursive: true });
+
+  try {
+    const snapshot = await captureSnapshot(config, staging, Boolean(options.har));
+    const records = toRecords(config, await extractFromSnapshot(config, staging, snapshot));
+    const expected: FixtureExpectation = {
+      url: config.url,
+      recordedAt: new Date().toISOString(),
+      snapshot,
+      ignore: previous?.ignore ?? [],
+      records
+    };
+    await fs.promises.writeFile(path.join(staging, EXPECTED_FILE), `${JSON.stringify(expected, null, 2)}\n`);
+    await fs.promises.rm(dir, { recursive: true, force: true });
+    await fs.promises.rename(staging, dir);
+    return { dir, expected };
+  } finally {
+    await fs.promises.rm(staging, { recursive: true, force: true });
+  }
+}
@@ -1,28 +1,79 @@
 import { getPrismaClient } from './db/client';
-import { loadSourceConfigs, upsertSources } from './config';
+import { loadSourceFiles, upsertSources } from './config';
+import { loadHostPolicies } from './config/hosts';
+import { SourceRegistry } from './config/registry';
+import { ConfigReloader } from './config/reloader';
 import { Scheduler } from './scheduler/scheduler';
 import { createApiServer } from './api/server';
+import { registerAdminRoutes } from './api/adminRoutes';
+import { registerAlertRoutes } from './api/alertRoutes';
+import { registerWebhookRoutes } from './api/webhookRoutes';
+import { registerApiKeyRoutes } from './api/apiKeyRoutes';
+import { registerArchiveRoutes } from './api/archiveRoutes';
+import { registerArtifactRoutes } from './api/artifactRoutes';
+import { registerHealthRoutes } from './api/healthRoutes';
+import { registerHistoryRoutes } from './api/historyRoutes';
+import { registerStreamRoutes } from './api/streamRoutes';
 import { registerWsServer } from './ws/wsServer';
+import { RemoteDataRelay } from './ws/remoteData';
 import { shutdownCrawler } from './crawler/crawler';
+import { WebhookDispatcher } from './webhooks/dispatcher';
+import { AlertEvaluator } from './alerts/evaluator';
+import { RelayMetrics } from './metrics/metrics';
+import { SHUTDOWN_DRAIN_MS } from './shared/constants';
 
 async function bootstrap() {
   const prisma = getPrismaClient();
-  const configs = await loadSourceConfigs();
-  await upsertSources(prisma, configs);
+  const entries = await loadSourceFiles();
+  await upsertSources(prisma, entries.map((entry) => entry.config));
+  const registry = new SourceRegistry(entries);
+  const reloader = new ConfigReloader(prisma, registry);
 
-  const api = createApiServer(prisma, configs);
-  await registerWsServer(api, prisma, configs);
+  const scheduler = new Scheduler(prisma, registry, 2, await loadHostPolicies());
+  const api = createApiServer(prisma, registry, reloader, scheduler);
+  await registerWsServer(api, prisma, registry);
+  registerHistoryRoutes(api, prisma, registry);
+  registerStreamRoutes(api, prisma, registry);
 
-  const scheduler = new Scheduler(prisma, configs, 2);
+  registerAdminRoutes(api, registry, scheduler);
+  registerWebhookRoutes(api, prisma);
+  registerApiKeyRoutes(api, prisma);
+  registerArchiveRoutes(api, registry);
+  registerArtifactRoutes(api, prisma);
+  registerAlertRoutes(api, prisma);
+
+  const metrics = new RelayMetrics(prisma, scheduler);
+  metrics.start();
+  registerHealthRoutes(api, prisma, registry, metrics);
+
+  const webhooks = new WebhookDispatcher(prisma, registry);
+  await webhooks.start();
+  const alerts = new AlertEvaluator(prisma, registry);
+  await alerts.start();
+  const remoteData = new RemoteDataRelay(prisma, registry);
+  await remoteData.start();
   await scheduler.start();
+  reloader.watch();
 
   const port = process.env.PORT ? Number(process.env.PORT) : 3000;
   await api.listen({ port, host: '0.0.0.0' });
   api.log.info(`Server started on port ${port}`);
 
+  // Crawls get SHUTDOWN_DRAIN_MS to finish before the browsers and the database connection close;
+  // a second signal exits immediately.
+  let shuttingDown = false;
   const shutdown = async () => {
+    if (shuttingDown) process.exit(1);
+    shuttingDown = true;
     api.log.info('Shutting down services...');
-    scheduler.stop();
+    reloader.close();
+    if (!(await scheduler.drain(SHUTDOWN_DRAIN_MS))) {
+      api.log.warn('Crawls still running at shutdown were marked as aborted');
+    }
+    remoteData.stop();
+    webhooks.stop();
+    alerts.stop();
+    metrics.stop();
     await shutdownCrawler();
     await prisma.$disconnect();
     process.exit(0);
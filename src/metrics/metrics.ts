@@ -0,0 +1,179 @@
+import { PrismaClient } from '@prisma/client';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { browserPool } from '../crawler/browserPool';
+import { Scheduler } from '../scheduler/scheduler';
+import { eventBus } from '../shared/eventBus';
+import { getWsSubscriberCounts } from '../ws/subscribers';
+
+// Counters and histograms are fed from eventBus; gauges are sampled from the scheduler, WebSocket
+// server and database when /metrics is scraped.
+export class RelayMetrics {
+  readonly registry = new Registry();
+
+  private crawls = new Counter({
+    name: 'relay_crawls_total',
+    help: 'Finished crawls by source and outcome',
+    labelNames: ['source', 'outcome'] as const,
+    registers: [this.registry]
+  });
+
+  private crawlDuration = new Histogram({
+    name: 'relay_crawl_duration_seconds',
+    help: 'Crawl duration by source and outcome',
+    labelNames: ['source', 'outcome'] as const,
+    buckets: [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120],
+    registers: [this.registry]
+  });
+
+  private selectorFailures = new Counter({
+    name: 'relay_selector_failures_total',
+    help: 'Selectors that failed or matched nothing, by source and field',
+    labelNames: ['source', 'field'] as const,
+    registers: [this.registry]
+  });
+
+  private selectorDrift = new Counter({
+    name: 'relay_selector_drift_total',
+    help: 'Fields that started failing or moved to a fallback selector, by source, field and status',
+    labelNames: ['source', 'field', 'status'] as const,
+    registers: [this.registry]
+  });
+
+  private schedulerRuns = new Counter({
+    name: 'relay_scheduler_runs_total',
+    help: 'Scheduled runs by source and outcome',
+    labelNames: ['source', 'outcome'] as const,
+    registers: [this.registry]
+  });
+
+  constructor(prisma: PrismaClient, scheduler: Scheduler) {
+    collectDefaultMetrics({ register: this.registry });
+
+    new Gauge({
+      name: 'relay_scheduler_in_flight',
+      help: 'Crawls currently running',
+      registers: [this.registry],
+      collect() {
+        this.set(scheduler.getStats().inFlight);
+      }
+    });
+
+    new Gauge({
+      name: 'relay_scheduler_queue_lag_seconds',
+      help: 'How far past its scheduled run each due source is (0 when not yet due)',
+      labelNames: ['source'] as const,
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        const now = Date.now();
+        for (const source of scheduler.getStats().sources) {
+          const lagMs = source.paused || !source.nextRunAt ? 0 : Math.max(now - source.nextRunAt.getTime(), 0);
+          this.set({ source: source.sourceId }, lagMs / 1000);
+        }
+      }
+    });
+
+    new Gauge({
+      name: 'relay_ws_subscribers',
+      help: 'Open WebSocket connections by source',
+      labelNames: ['source'] as const,
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const [source, count] of getWsSubscriberCounts()) {
+          this.set({ source }, count);
+        }
+      }
+    });
+
+    new Gauge({
+      name: 'relay_browser_pool_browsers',
+      help: 'Pooled browsers by engine and state (current or retiring)',
+      labelNames: ['engine', 'state'] as const,
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const browser of browserPool.stats().browsers) {
+          this.inc({ engine: browser.engine, state: browser.retiring ? 'retiring' : 'current' });
+        }
+      }
+    });
+
+    new Gauge({
+      name: 'relay_browser_pool_contexts',
+      help: 'Pooled browser contexts by state (active or idle)',
+      labelNames: ['state'] as const,
+      registers: [this.registry],
+      collect() {
+        const stats = browserPool.stats();
+        this.set({ state: 'active' }, stats.activeContexts);
+        this.set({ state: 'idle' }, stats.idleContexts);
+      }
+    });
+
+    new Gauge({
+      name: 'relay_source_data_rows',
+      help: 'Stored SourceData rows by source',
+      labelNames: ['source'] as const,
+      registers: [this.registry],
+      async collect() {
+        const counts = await prisma.sourceData.groupBy({ by: ['sourceId'], _count: { _all: true } });
+        this.reset();
+        for (const entry of counts) {
+          this.set({ source: entry.sourceId }, entry._count._all);
+        }
+      }
+    });
+  }
+
+  start() {
+    eventBus.on('crawl:finish', this.handleCrawlFinish);
+    eventBus.on('crawl:error', this.handleCrawlError);
+    eventBus.on('selector:failure', this.handleSelectorFailure);
+    eventBus.on('selector:drift', this.handleSelectorDrift);
+    eventBus.on('scheduler:success', this.handleSchedulerSuccess);
+    eventBus.on('scheduler:error', this.handleSchedulerError);
+  }
+
+  stop() {
+    eventBus.off('crawl:finish', this.handleCrawlFinish);
+    eventBus.off('crawl:error', this.handleCrawlError);
+    eventBus.off('selector:failure', this.handleSelectorFailure);
+    eventBus.off('selector:drift', this.handleSelectorDrift);
+    eventBus.off('scheduler:success', this.handleSchedulerSuccess);
+    eventBus.off('scheduler:error', this.handleSchedulerError);
+  }
+
+  render() {
+    return this.registry.metrics();
+  }
+
+  private handleCrawlFinish = (event: { sourceId: string; durationMs: number; failedFields?: string[] }) => {
+    const outcome = event.failedFields?.length ? 'partial' : 'success';
+    this.crawls.inc({ source: event.sourceId, outcome });
+    this.crawlDuration.observe({ source: event.sourceId, outcome }, event.durationMs / 1000);
+  };
+
+  private handleCrawlError = (event: { sourceId: string; durationMs?: number }) => {
+    this.crawls.inc({ source: event.sourceId, outcome: 'error' });
+    if (event.durationMs !== undefined) {
+      this.crawlDuration.observe({ source: event.sourceId, outcome: 'error' }, event.durationMs / 1000);
+    }
+  };
+
+  private handleSelectorFailure = (event: { sourceId: string; field: string }) => {
+    this.selectorFailures.inc({ source: event.sourceId, field: event.field });
+  };
+
+  private handleSelectorDrift = (event: { sourceId: string; field: string; status: string }) => {
+    this.selectorDrift.inc({ source: event.sourceId, field: event.field, status: event.status });
+  };
+
+  private handleSchedulerSuccess = (event: { sourceId: string }) => {
+    this.schedulerRuns.inc({ source: event.sourceId, outcome: 'success' });
+  };
+
+  private handleSchedulerError = (event: { sourceId: string }) => {
+    this.schedulerRuns.inc({ source: event.sourceId, outcome: 'error' });
+  };
+}
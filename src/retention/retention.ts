@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ResolvedSourceConfig } from '../config';
+import { ARCHIVE_DIR, RETENTION_WINDOW_MS } from '../shared/constants';
+
+const ARCHIVE_BATCH_SIZE = 500;
+const ARCHIVE_FILE_PATTERN = /^[\w.-]+\.ndjson\.gz$/;
+
+export interface ArchiveFile {
+  name: string;
+  size: number;
+  createdAt: Date;
+}
+
+export function retentionCutoff(config?: Pick<ResolvedSourceConfig, 'retention'>) {
+  return new Date(Date.now() - (config?.retention.maxAgeMs ?? RETENTION_WINDOW_MS));
+}
+
+// A row stays in the window while crawls keep confirming its value, however long ago it was scraped.
+export function retainedSince(cutoff: Date): Prisma.SourceDataWhereInput {
+  return { OR: [{ scrapedAt: { gte: cutoff } }, { confirmedAt: { gte: cutoff } }] };
+}
+
+export function archiveDirectory(sourceId: string) {
+  return path.join(ARCHIVE_DIR, sourceId);
+}
+
+// Rows are expired by age (counted from `confirmedAt` when a later crawl confirmed the value), and also by
+// count when `maxRows` is set; the count limit keeps the newest rows. The newest row (or list batch) is
+// never expired, so the current value survives however long it stays unchanged.
+async function expiredRowsFilter(
+  prisma: PrismaClient,
+  config: ResolvedSourceConfig
+): Promise<Prisma.SourceDataWhereInput> {
+  const cutoff = retentionCutoff(config);
+  const expired: Prisma.SourceDataWhereInput[] = [
+    { scrapedAt: { lt: cutoff }, OR: [{ confirmedAt: null }, { confirmedAt: { lt: cutoff } }] }
+  ];
+  if (config.retention.maxRows) {
+    const [boundary] = await prisma.sourceData.findMany({
+      where: { sourceId: config.id },
+      orderBy: { id: 'desc' },
+      skip: config.retention.maxRows,
+      take: 1,
+      select: { id: true }
+    });
+    if (boundary) {
+      expired.push({ id: { lte: boundary.id } });
+    }
+  }
+  const newest = await prisma.sourceData.findFirst({
+    where: { sourceId: config.id },
+    orderBy: { id: 'desc' },
+    select: { id: true, batchId: true }
+  });
+  if (!newest) {
+    return { sourceId: config.id, OR: expired };
+  }
+  // The items of a batch are stored together, so the newest batch starts at its lowest id.
+  const current = newest.batchId
+    ? await prisma.sourceData.findFirst({
+        where: { sourceId: config.id, batchId: newest.batchId },
+        orderBy: { id: 'asc' },
+        select: { id: true }
+      })
+    : newest;
+  return { sourceId: config.id, id: { lt: current?.id ?? newest.id }, OR: expired };
+}
+
+async function archiveRows(prisma: PrismaClient, sourceId: string, where: Prisma.SourceDataWhereInput) {
+  let lastId = 0;
+  let count = 0;
+
+  async function* lines() {
+    while (true) {
+      const batch = await prisma.sourceData.findMany({
+        where: { AND: [where, { id: { gt: lastId } }] },
+        orderBy: { id: 'asc' },
+        take: ARCHIVE_BATCH_SIZE
+      });
+      if (!batch.length) return;
+      for (const row of batch) {
+        yield `${JSON.stringify(row)}\n`;
+      }
+      lastId = batch[batch.length - 1].id;
+      count += batch.length;
+    }
+  }
+
+  const directory = archiveDirectory(sourceId);
+  await fs.promises.mkdir(directory, { recursive: true });
+  const filePath = path.join(directory, `${sourceId}-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson.gz`);
+  await pipeline(Readable.from(lines()), createGzip(), fs.createWriteStream(filePath));
+
+  if (!count) {
+    await fs.promises.unlink(filePath);
+    return { count, lastId, filePath: null };
+  }
+  return { count, lastId, filePath };
+}
+
+export async function enforceRetention(prisma: PrismaClient, configs: ResolvedSourceConfig[]) {
+  for (const config of configs) {
+    try {
+      const where = await expiredRowsFilter(prisma, config);
+
+      if (config.retention.archive) {
+        const hasExpired = await prisma.sourceData.findFirst({ where, select: { id: true } });
+        if (!hasExpired) continue;
+        const { count, lastId, filePath } = await archiveRows(prisma, config.id, where);
+        if (!count) continue;
+        // Only rows that made it into the archive are deleted.
+        await prisma.sourceData.deleteMany({ where: { AND: [where, { id: { lte: lastId } }] } });
+        console.info(`[retention] archived ${count} rows for ${config.id} to ${path.basename(filePath!)}`);
+        continue;
+      }
+
+      const result = await prisma.sourceData.deleteMany({ where });
+      if (result.count > 0) {
+        console.info(`[retention] cleaned up ${result.count} expired rows for ${config.id}`);
+      }
+    } catch (error) {
+      console.error(`[retention] failed to enforce retention for ${config.id}`, error);
+    }
+  }
+
+  // Sources that are no longer configured fall back to the default window.
+  const result = await prisma.sourceData.deleteMany({
+    where: {
+      sourceId: { notIn: configs.map((config) => config.id) },
+      scrapedAt: { lt: retentionCutoff() }
+    }
+  });
+  if (result.count > 0) {
+    console.info(`[retention] cleaned up ${result.count} expired rows for unconfigured sources`);
+  }
+}
+
+export async function listArchives(sourceId: string): Promise<ArchiveFile[]> {
+  const directory = archiveDirectory(sourceId);
+  const names = await fs.promises.readdir(directory).catch(() => [] as string[]);
+  const files = await Promise.all(
+    names
+      .filter((name) => ARCHIVE_FILE_PATTERN.test(name))
+      .map(async (name) => {
+        const stats = await fs.promises.stat(path.join(directory, name));
+        return { name, size: stats.size, createdAt: stats.birthtime };
+      })
+  );
+  return files.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function resolveArchivePath(sourceId: string, name: string) {
+  if (!ARCHIVE_FILE_PATTERN.test(name)) return null;
+  const filePath = path.join(archiveDirectory(sourceId), name);
+  return fs.existsSync(filePath) ? filePath : null;
+}
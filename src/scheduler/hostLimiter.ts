@@ -0,0 +1,79 @@
+import { HostLimits, HostPolicies, limitsForHost } from '../config/hosts';
+
+interface HostState {
+  inFlight: number;
+  lastStartedAt: number;
+  previousStartedAt: number;
+  crawlDelayMs: number;
+}
+
+// Shared by every source pointing at the same hostname: a crawl may start only when the host is
+// below its concurrency limit and its minimum interval (or robots.txt Crawl-delay, if longer) has passed.
+export class HostLimiter {
+  private hosts = new Map<string, HostState>();
+
+  constructor(private policies: HostPolicies) {}
+
+  static hostOf(url: string) {
+    return new URL(url).hostname.toLowerCase();
+  }
+
+  limits(host: string): HostLimits {
+    return limitsForHost(this.policies, host);
+  }
+
+  tryAcquire(url: string, now = Date.now()) {
+    const host = HostLimiter.hostOf(url);
+    const state = this.stateFor(host);
+    if (state.inFlight >= this.limits(host).maxConcurrency || now < this.nextAllowedAt(host)) {
+      return null;
+    }
+    state.inFlight += 1;
+    state.previousStartedAt = state.lastStartedAt;
+    state.lastStartedAt = now;
+    return host;
+  }
+
+  release(host: string) {
+    const state = this.stateFor(host);
+    state.inFlight = Math.max(state.inFlight - 1, 0);
+  }
+
+  // Gives back a slot acquired at `startedAt` whose crawl never started (another instance held the
+  // source, or already ran it), so the host's interval counts from its previous crawl again.
+  cancel(host: string, startedAt: number) {
+    const state = this.stateFor(host);
+    this.release(host);
+    if (state.lastStartedAt === startedAt) {
+      state.lastStartedAt = state.previousStartedAt;
+    }
+  }
+
+  setCrawlDelay(host: string, crawlDelayMs = 0) {
+    this.stateFor(host).crawlDelayMs = crawlDelayMs;
+  }
+
+  nextAllowedAt(host: string) {
+    const state = this.stateFor(host);
+    return state.lastStartedAt + Math.max(this.limits(host).minIntervalMs, state.crawlDelayMs);
+  }
+
+  stats() {
+    return [...this.hosts.entries()].map(([host, state]) => ({
+      host,
+      ...this.limits(host),
+      inFlight: state.inFlight,
+      crawlDelayMs: state.crawlDelayMs,
+      nextAllowedAt: new Date(this.nextAllowedAt(host))
+    }));
+  }
+
+  private stateFor(host: string) {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { inFlight: 0, lastStartedAt: 0, previousStartedAt: 0, crawlDelayMs: 0 };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+}
@@ -1,34 +1,75 @@
 import { PrismaClient, CrawlStatus } from '@prisma/client';
 import { ResolvedSourceConfig } from '../config';
-import { crawlSource } from '../crawler/crawler';
+import { isAllowedTime, nextAllowedTime, nextCronTime } from '../config/schedule';
+import { DEFAULT_HOST_POLICIES, HostPolicies } from '../config/hosts';
+import { ConfigReloadResult } from '../config/reloader';
+import { SourceRegistry } from '../config/registry';
+import { crawlSource, reconcileAbortedCrawls } from '../crawler/crawler';
+import { ROBOTS_USER_AGENT, checkRobots } from '../crawler/robots';
 import { eventBus } from '../shared/eventBus';
-import { RETENTION_WINDOW_MS } from '../shared/constants';
+import { enforceRetention } from '../retention/retention';
+import { INSTANCE_ID, MIN_CRAWL_INTERVAL_MS, STARTUP_STAGGER_MS } from '../shared/constants';
+import { Lease, LeaseManager, crawlLeaseKey } from '../db/leases';
+import { HostLimiter } from './hostLimiter';
+
+// `nextRun` of a source that has nothing scheduled (manual mode, or no allowed time left).
+const NEVER = Number.POSITIVE_INFINITY;
+
+const toRunAt = (nextRun: number) => (nextRun === NEVER ? null : new Date(nextRun));
+
+// How soon a source leased by another instance (or paused there) is looked at again.
+const LEASE_RETRY_MS = 5_000;
+const RETENTION_LEASE_KEY = 'retention';
 
 interface SchedulerState {
   nextRun: number;
   failures: number;
+  paused: boolean;
+  running: boolean;
+  manualRun: boolean;
+}
+
+export type SchedulerControlAction = 'run' | 'pause' | 'resume' | 'reset';
+
+export interface SchedulerSourceState {
+  nextRunAt: Date | null;
+  failures: number;
+  paused: boolean;
+  running: boolean;
 }
 
 export class Scheduler {
   private timer: NodeJS.Timeout | null = null;
   private cleanupTimer: NodeJS.Timeout | null = null;
   private inFlight = 0;
+  private runs = new Set<Promise<void>>();
+  // Aborted when drain() gives up on the crawls still running.
+  private abort = new AbortController();
   private state: Map<string, SchedulerState> = new Map();
+  private hosts: HostLimiter;
+  private leases: LeaseManager;
 
   constructor(
     private prisma: PrismaClient,
-    private sources: ResolvedSourceConfig[],
-    private maxConcurrency = 2
-  ) {}
+    private registry: SourceRegistry,
+    private maxConcurrency = 2,
+    hostPolicies: HostPolicies = DEFAULT_HOST_POLICIES
+  ) {
+    this.hosts = new HostLimiter(hostPolicies);
+    this.leases = new LeaseManager(prisma);
+  }
 
   async start() {
     if (this.timer) return;
+    await reconcileAbortedCrawls(this.prisma, INSTANCE_ID);
     await this.hydrateState();
+    eventBus.on('config:reloaded', this.handleReload);
     this.timer = setInterval(() => void this.tick(), 1000);
     this.cleanupTimer = setInterval(() => void this.cleanupHistory(), 60_000);
   }
 
   stop() {
+    eventBus.off('config:reloaded', this.handleReload);
     if (this.timer) {
       clearInterval(this.timer);
       this.timer = null;
@@ -39,19 +80,196 @@ export class Scheduler {
     }
   }
 
-  private async hydrateState() {
-    for (const source of this.sources) {
+  // Stops scheduling and waits up to `timeoutMs` for in-flight crawls. Crawls still running after
+  // that are marked ABORTED and record nothing else when they fail or finish; returns whether every
+  // crawl finished.
+  async drain(timeoutMs: number) {
+    this.stop();
+    if (!this.runs.size) return true;
+    console.info(`[scheduler] waiting up to ${timeoutMs}ms for ${this.runs.size} crawl(s) to finish`);
+    let timeout: NodeJS.Timeout | undefined;
+    const drained = await Promise.race([
+      Promise.allSettled([...this.runs]).then(() => true),
+      new Promise<boolean>((resolve) => {
+        timeout = setTimeout(() => resolve(false), timeoutMs);
+      })
+    ]);
+    clearTimeout(timeout);
+    if (!drained) {
+      console.warn(`[scheduler] ${this.runs.size} crawl(s) did not finish in time`);
+      this.abort.abort();
+      await reconcileAbortedCrawls(this.prisma, INSTANCE_ID);
+      await this.leases.releaseAll();
+    }
+    return drained;
+  }
+
+  // Restores timing from the Source row: a future `nextRunAt` (which includes backoff and the
+  // failure-limit pause) is kept. Sources that are due start STARTUP_STAGGER_MS apart instead of
+  // all at once; cron sources that never ran wait for their next cron time.
+  private async hydrateState(sourceIds = this.registry.list().map((source) => source.id)) {
+    const now = Date.now();
+    let due = 0;
+    for (const sourceId of sourceIds) {
+      const source = this.registry.get(sourceId);
+      if (!source) continue;
       const record = await this.prisma.source.findUnique({
-        where: { id: source.id },
-        select: { failureCount: true }
+        where: { id: sourceId },
+        select: { failureCount: true, paused: true, nextRunAt: true }
       });
-      this.state.set(source.id, {
-        nextRun: Date.now(),
-        failures: record?.failureCount ?? 0
+      const persisted = record?.nextRunAt?.getTime();
+      let nextRun: number;
+      if (persisted !== undefined && persisted > now) {
+        nextRun = this.planNextRun(source, persisted - now, persisted);
+      } else if (persisted === undefined && source.schedule.mode === 'cron') {
+        nextRun = this.firstRun(sourceId);
+      } else {
+        nextRun = this.planNextRun(source, source.enabled ? due * STARTUP_STAGGER_MS : 0);
+        if (source.enabled && source.schedule.mode !== 'manual') due += 1;
+      }
+      this.state.set(sourceId, {
+        nextRun,
+        failures: record?.failureCount ?? 0,
+        paused: record?.paused ?? false,
+        running: false,
+        manualRun: false
       });
     }
   }
 
+  // Updated interval sources keep their timing state (moved into any new windows); cron and manual
+  // sources are replanned. In-flight crawls finish with the config they started with.
+  private handleReload = (result: ConfigReloadResult) => {
+    for (const sourceId of result.removed) {
+      this.state.delete(sourceId);
+    }
+    for (const sourceId of result.updated) {
+      const source = this.registry.get(sourceId);
+      const state = this.state.get(sourceId);
+      if (!source || !state || state.running) continue;
+      state.nextRun =
+        source.schedule.mode === 'interval' && state.nextRun !== NEVER
+          ? this.planNextRun(source, Math.max(state.nextRun - Date.now(), 0))
+          : this.firstRun(sourceId);
+      // Other instances adopt the stored plan, so it has to follow the new schedule too.
+      this.prisma.source
+        .update({ where: { id: sourceId }, data: { nextRunAt: toRunAt(state.nextRun) } })
+        .catch((error) => console.error(`[scheduler] failed to store the new schedule of ${sourceId}`, error));
+    }
+    this.hydrateState(result.added).catch((error) => {
+      console.error('[scheduler] failed to schedule reloaded sources', error);
+    });
+  };
+
+  getSourceState(sourceId: string): SchedulerSourceState | undefined {
+    const state = this.state.get(sourceId);
+    if (!state) return undefined;
+    return {
+      nextRunAt: toRunAt(state.nextRun),
+      failures: state.failures,
+      paused: state.paused,
+      running: state.running
+    };
+  }
+
+  getStats() {
+    return {
+      inFlight: this.inFlight,
+      maxConcurrency: this.maxConcurrency,
+      sources: this.registry
+        .list()
+        .filter((source) => source.enabled && this.state.has(source.id))
+        .map((source) => ({ sourceId: source.id, ...this.getSourceState(source.id)! })),
+      hosts: this.hosts.stats()
+    };
+  }
+
+  // Queues a crawl ahead of every other due source, as soon as MIN_CRAWL_INTERVAL_MS has passed since
+  // the last crawl started. Paused sources still run once; the tick loop keeps honoring maxConcurrency.
+  // Returns when the crawl may start, or null when the source is already running.
+  async runNow(sourceId: string) {
+    const state = this.requireState(sourceId);
+    if (state.running) return null;
+    const notBefore = await this.earliestStart(sourceId);
+    state.manualRun = true;
+    state.nextRun = notBefore;
+    await this.recordControl(sourceId, 'run', CrawlStatus.IDLE, 'Run requested by operator');
+    void this.tick();
+    return new Date(Math.max(notBefore, Date.now()));
+  }
+
+  async pause(sourceId: string) {
+    const state = this.requireState(sourceId);
+    state.paused = true;
+    await this.prisma.source.update({ where: { id: sourceId }, data: { paused: true } });
+    await this.recordControl(sourceId, 'pause', CrawlStatus.PAUSED, 'Paused by operator');
+  }
+
+  async resume(sourceId: string) {
+    const state = this.requireState(sourceId);
+    state.paused = false;
+    state.nextRun = this.firstRun(sourceId, await this.earliestStart(sourceId));
+    await this.prisma.source.update({
+      where: { id: sourceId },
+      data: { paused: false, nextRunAt: toRunAt(state.nextRun) }
+    });
+    await this.recordControl(sourceId, 'resume', CrawlStatus.IDLE, 'Resumed by operator');
+  }
+
+  // Clears consecutive failures, which also lifts the failure-limit pause and any pending backoff.
+  async reset(sourceId: string) {
+    const state = this.requireState(sourceId);
+    state.failures = 0;
+    state.nextRun = this.firstRun(sourceId, await this.earliestStart(sourceId));
+    await this.prisma.source.update({
+      where: { id: sourceId },
+      data: { failureCount: 0, nextRunAt: toRunAt(state.nextRun) }
+    });
+    await this.recordControl(sourceId, 'reset', CrawlStatus.IDLE, 'Failure count and backoff reset by operator');
+  }
+
+  // Operator actions never start a crawl within MIN_CRAWL_INTERVAL_MS of the previous one, whichever
+  // instance ran it.
+  private async earliestStart(sourceId: string) {
+    const lastStart = await this.prisma.sourceStatus.findFirst({
+      where: { sourceId, status: CrawlStatus.RUNNING },
+      orderBy: { id: 'desc' },
+      select: { runAt: true }
+    });
+    return (lastStart?.runAt.getTime() ?? 0) + MIN_CRAWL_INTERVAL_MS;
+  }
+
+  private requireState(sourceId: string) {
+    const state = this.state.get(sourceId);
+    if (!state) {
+      throw new Error(`Source ${sourceId} is not scheduled`);
+    }
+    return state;
+  }
+
+  private async recordControl(
+    sourceId: string,
+    action: SchedulerControlAction,
+    status: CrawlStatus,
+    message: string
+  ) {
+    const state = this.requireState(sourceId);
+    await this.prisma.sourceStatus.create({
+      data: {
+        sourceId,
+        status,
+        message,
+        nextRunAt: state.paused ? null : toRunAt(state.nextRun),
+        attempts: state.failures
+      }
+    });
+    console.info(`[scheduler] ${sourceId}: ${message}`);
+
+    const event = { sourceId, action, state: this.getSourceState(sourceId) };
+    eventBus.emit('scheduler:control', event);
+    eventBus.emit(`source:${sourceId}`, { type: 'control', ...event });
+  }
+
   private computeJitterMs(source: ResolvedSourceConfig) {
     const jitterMs = source.schedule.jitterMs;
     if (!jitterMs) return 0;
@@ -59,9 +277,38 @@ export class Scheduler {
     return Math.floor(offset);
   }
 
+  // Manual sources only run on demand. Interval sources run `delayMs` from now and cron sources at
+  // their next cron time (or earlier, when a retry `delayMs` comes first); both are moved into the
+  // schedule's windows and past blackout dates, and never before `notBefore`.
+  private planNextRun(source: ResolvedSourceConfig, delayMs: number | null, notBefore = Date.now()) {
+    const { schedule } = source;
+    if (schedule.mode === 'manual') return NEVER;
+    const now = Date.now();
+    const planned: number[] = [];
+    if (schedule.mode === 'cron') {
+      planned.push(nextCronTime(schedule, Math.max(now, notBefore)) ?? NEVER);
+    }
+    if (delayMs !== null) {
+      planned.push(nextAllowedTime(schedule, Math.max(now + delayMs, notBefore)) ?? NEVER);
+    }
+    const nextRun = Math.min(...planned);
+    if (nextRun === NEVER) {
+      console.warn(`[scheduler] ${source.id} has no allowed run time left in its schedule`);
+    }
+    return nextRun;
+  }
+
+  // Interval sources are due right away (within their windows); cron sources wait for the next cron time.
+  private firstRun(sourceId: string, notBefore = Date.now()) {
+    const source = this.registry.get(sourceId);
+    if (!source) return Math.max(Date.now(), notBefore);
+    return this.planNextRun(source, source.schedule.mode === 'interval' ? 0 : null, notBefore);
+  }
+
   private async tick() {
+    if (!this.timer) return;
     const now = Date.now();
-    const sortedSources = [...this.sources].sort((a, b) => {
+    const sortedSources = this.registry.list().sort((a, b) => {
       const aState = this.state.get(a.id)?.nextRun ?? 0;
       const bState = this.state.get(b.id)?.nextRun ?? 0;
       return aState - bState;
@@ -76,66 +323,178 @@ export class Scheduler {
       }
 
       const state = this.state.get(source.id);
-      if (!state || now < state.nextRun) {
+      if (!state || state.running || now < state.nextRun) {
+        continue;
+      }
+      if (state.paused && !state.manualRun) {
+        continue;
+      }
+      // A run that came due but was held back (e.g. by a busy host) past its window waits for the next one.
+      if (!state.manualRun && !isAllowedTime(source.schedule, now)) {
+        state.nextRun = this.firstRun(source.id);
+        continue;
+      }
+      // A host at its limit leaves the source due; it starts on a later tick once the host frees up.
+      const host = this.hosts.tryAcquire(source.url, now);
+      if (!host) {
         continue;
       }
 
-      this.runSource(source, state).catch((error) => {
+      const run = this.runSource(source, state, host, now).catch((error) => {
         console.error(`[scheduler] error running ${source.id}:`, error);
       });
+      this.runs.add(run);
+      void run.finally(() => this.runs.delete(run));
     }
   }
 
-  private async runSource(source: ResolvedSourceConfig, state: SchedulerState) {
+  // Returns the robots.txt refusal for a source, or null when it may be crawled (or robots.txt is off for its host).
+  private async checkRobotsTxt(source: ResolvedSourceConfig, host: string) {
+    if (!this.hosts.limits(host).robotsTxt) return null;
+    const verdict = await checkRobots(source.url, ROBOTS_USER_AGENT);
+    this.hosts.setCrawlDelay(host, verdict.crawlDelayMs);
+    return verdict.allowed ? null : verdict.reason ?? 'Disallowed by robots.txt';
+  }
+
+  private async recordBlocked(source: ResolvedSourceConfig, reason: string) {
+    const message = `Blocked: ${reason}`;
+    console.warn(`[scheduler] ${source.id}: ${message}`);
+    await this.prisma.sourceStatus.create({ data: { sourceId: source.id, status: CrawlStatus.BLOCKED, message } });
+    await this.prisma.source.update({
+      where: { id: source.id },
+      data: { lastStatus: CrawlStatus.BLOCKED, lastRunAt: new Date() }
+    });
+    eventBus.emit('crawl:blocked', { sourceId: source.id, reason });
+    eventBus.emit(`source:${source.id}`, { type: 'blocked', sourceId: source.id, error: message });
+  }
+
+  // Only the instance holding the source's crawl lease runs it. Without the lease, or when another
+  // instance already ran this slot, the source is only rescheduled and the host slot is given back.
+  private async runSource(source: ResolvedSourceConfig, state: SchedulerState, host: string, acquiredAt: number) {
     this.inFlight += 1;
+    state.running = true;
+    const manualRun = state.manualRun;
+    state.manualRun = false;
+    let lease: Lease | null = null;
+    let started = false;
+    try {
+      lease = await this.leases.acquire(crawlLeaseKey(source.id));
+      if (!lease) {
+        state.nextRun = Date.now() + LEASE_RETRY_MS;
+      } else if (manualRun || (await this.claimRun(source.id, state))) {
+        started = true;
+        await this.crawlLeased(source, state, host, lease);
+      }
+    } finally {
+      if (started) {
+        this.hosts.release(host);
+      } else {
+        this.hosts.cancel(host, acquiredAt);
+      }
+      try {
+        await lease?.release();
+      } finally {
+        state.running = false;
+        this.inFlight -= 1;
+      }
+    }
+  }
+
+  // Another instance may have run this slot already (its plan is on the Source row), or paused the
+  // source; returns whether this instance should crawl now.
+  private async claimRun(sourceId: string, state: SchedulerState) {
+    const record = await this.prisma.source.findUnique({
+      where: { id: sourceId },
+      select: { nextRunAt: true, failureCount: true, paused: true }
+    });
+    if (!record) return true;
+    state.failures = record.failureCount;
+    if (record.paused) {
+      state.nextRun = Date.now() + LEASE_RETRY_MS;
+      return false;
+    }
+    const planned = record.nextRunAt?.getTime();
+    if (planned !== undefined && planned > Date.now()) {
+      state.nextRun = planned;
+      return false;
+    }
+    return true;
+  }
+
+  // When the lease is lost mid-crawl (renewals failed until it expired), another instance owns the
+  // source's schedule, so this run leaves the stored plan and failure count alone and only looks at
+  // the source again after LEASE_RETRY_MS.
+  private async crawlLeased(source: ResolvedSourceConfig, state: SchedulerState, host: string, lease: Lease) {
     const startedAt = Date.now();
     const jitter = this.computeJitterMs(source);
-    state.nextRun = Date.now() + source.schedule.effectiveIntervalMs + jitter;
+    const notBefore = startedAt + MIN_CRAWL_INTERVAL_MS;
+    const intervalDelay = source.schedule.mode === 'interval' ? source.schedule.effectiveIntervalMs + jitter : null;
+    state.nextRun = this.planNextRun(source, intervalDelay, notBefore);
     try {
-      await crawlSource(this.prisma, source);
+      // Blocked sources are rechecked every interval and do not count toward failureLimit.
+      const blockedReason = await this.checkRobotsTxt(source, host);
+      if (blockedReason) {
+        await this.recordBlocked(source, blockedReason);
+        return;
+      }
+      await crawlSource(this.prisma, source, this.abort.signal);
       state.failures = 0;
-      state.nextRun = Date.now() + source.schedule.effectiveIntervalMs + jitter;
+      state.nextRun = this.planNextRun(source, intervalDelay, notBefore);
       eventBus.emit('scheduler:success', { sourceId: source.id, durationMs: Date.now() - startedAt });
     } catch (error) {
+      if (this.abort.signal.aborted || lease.lost) return;
       state.failures += 1;
       const backoffMs = Math.min(
         source.schedule.effectiveIntervalMs * Math.pow(source.schedule.backoffMultiplier, state.failures),
         source.schedule.maxBackoffMs
       );
-      state.nextRun = Date.now() + backoffMs + jitter;
+      state.nextRun = this.planNextRun(source, backoffMs + jitter, notBefore);
       if (state.failures >= source.schedule.failureLimit) {
         const pauseMs = 24 * 60 * 60 * 1000;
-        state.nextRun = Date.now() + pauseMs;
+        state.nextRun = this.planNextRun(source, pauseMs, Date.now() + pauseMs);
         console.warn(
           `[scheduler] ${source.id} exceeded failure limit (${source.schedule.failureLimit}); pausing for 24h`
         );
       }
       eventBus.emit('scheduler:error', { sourceId: source.id, error });
     } finally {
-      await this.prisma.sourceStatus.create({
-        data: {
-          sourceId: source.id,
-          status: CrawlStatus.IDLE,
-          message: 'Scheduled',
-          nextRunAt: new Date(state.nextRun),
-          attempts: state.failures
-        }
-      });
-      this.inFlight -= 1;
+      if (lease.lost) {
+        console.warn(`[scheduler] lost the lease of ${source.id} during its crawl; leaving its schedule alone`);
+        state.nextRun = Date.now() + LEASE_RETRY_MS;
+      } else if (!this.abort.signal.aborted) {
+        // An aborted run keeps the schedule the source had before it started.
+        await this.persistSchedule(source.id, state);
+      }
     }
   }
 
+  // The Source row keeps the planned run so backoff and the failure-limit pause survive restarts.
+  private async persistSchedule(sourceId: string, state: SchedulerState) {
+    const nextRunAt = toRunAt(state.nextRun);
+    await this.prisma.source.update({ where: { id: sourceId }, data: { nextRunAt } });
+    await this.prisma.sourceStatus.create({
+      data: {
+        sourceId,
+        status: CrawlStatus.IDLE,
+        message: nextRunAt ? 'Scheduled' : 'Not scheduled',
+        nextRunAt,
+        attempts: state.failures
+      }
+    });
+  }
+
+  // One instance at a time enforces retention; the same pass marks crawls of crashed instances as aborted.
   private async cleanupHistory() {
+    let lease: Lease | null = null;
     try {
-      const cutoff = new Date(Date.now() - RETENTION_WINDOW_MS);
-      const result = await this.prisma.sourceData.deleteMany({
-        where: { scrapedAt: { lt: cutoff } }
-      });
-      if (result.count > 0) {
-        console.info(`[scheduler] cleaned up ${result.count} stale rows older than 4h`);
-      }
+      lease = await this.leases.acquire(RETENTION_LEASE_KEY);
+      if (!lease) return;
+      await reconcileAbortedCrawls(this.prisma);
+      await enforceRetention(this.prisma, this.registry.list());
     } catch (error) {
       console.error('[scheduler] failed to cleanup history', error);
+    } finally {
+      await lease?.release().catch((error) => console.error('[scheduler] failed to release retention lease', error));
     }
   }
 }
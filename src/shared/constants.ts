@@ -1,2 +1,21 @@
+import os from 'os';
+import path from 'path';
+
 export const MIN_CRAWL_INTERVAL_MS = 20_000;
+// Gap between the first runs of sources that are due at startup, and how long shutdown waits for crawls.
+export const STARTUP_STAGGER_MS = Number(process.env.STARTUP_STAGGER_MS ?? 2_000);
+export const SHUTDOWN_DRAIN_MS = Number(process.env.SHUTDOWN_DRAIN_MS ?? 30_000);
+// Multi-instance coordination: the holder name of this instance's leases, how long a lease lasts
+// without renewal, and how often rows stored by other instances are polled (0 disables polling).
+export const INSTANCE_ID = process.env.INSTANCE_ID ?? `${os.hostname()}-${process.pid}`;
+export const LEASE_TTL_MS = Number(process.env.LEASE_TTL_MS ?? 60_000);
+export const DATA_POLL_INTERVAL_MS = Number(process.env.DATA_POLL_INTERVAL_MS ?? 2_000);
+// Default per-source retention; sources override it with `retention.maxAge`.
 export const RETENTION_WINDOW_MS = 4 * 60 * 60 * 1000;
+export const ARCHIVE_DIR = process.env.ARCHIVE_DIR ?? path.join(process.cwd(), 'archives');
+// Debug artifacts; the oldest runs' artifacts are deleted once the total exceeds ARTIFACTS_MAX_BYTES.
+export const ARTIFACTS_DIR = process.env.ARTIFACTS_DIR ?? path.join(process.cwd(), 'artifacts');
+export const ARTIFACTS_MAX_BYTES = Number(process.env.ARTIFACTS_MAX_BYTES ?? 500 * 1024 * 1024);
+// Browser pool: pages a browser serves before it is replaced, and idle contexts kept per source.
+export const BROWSER_RECYCLE_PAGES = Number(process.env.BROWSER_RECYCLE_PAGES ?? 200);
+export const BROWSER_WARM_CONTEXTS = Number(process.env.BROWSER_WARM_CONTEXTS ?? 2);
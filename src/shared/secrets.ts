@@ -0,0 +1,19 @@
+// Only variables with this prefix can be read as secrets, so a config can never point a header,
+// cookie or form field at unrelated server settings such as ADMIN_TOKEN or DATABASE_URL.
+export const SECRET_ENV_PREFIX = 'RELAY_SECRET_';
+
+export const isSecretEnvName = (name: string) =>
+  name.startsWith(SECRET_ENV_PREFIX) && name.length > SECRET_ENV_PREFIX.length;
+
+// Secrets are only ever read from the environment at the moment they are used; configs and the
+// database store the variable name.
+export function readSecretEnv(name: string, purpose: string) {
+  if (!isSecretEnvName(name)) {
+    throw new Error(`Environment variable ${name} cannot hold secrets; its name must start with ${SECRET_ENV_PREFIX}`);
+  }
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Environment variable ${name} is not set (${purpose})`);
+  }
+  return value;
+}
@@ -0,0 +1,231 @@
+import { createHmac } from 'crypto';
+import { Prisma, PrismaClient, Webhook, WebhookDelivery, WebhookDeliveryStatus } from '@prisma/client';
+import { WebhookEvent } from '../config';
+import { SourceRegistry } from '../config/registry';
+import { INSTANCE_ID } from '../shared/constants';
+import { eventBus } from '../shared/eventBus';
+
+const POLL_INTERVAL_MS = 5_000;
+const BATCH_SIZE = 20;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_MS = 10_000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+// Long enough for a send (bounded by DELIVERY_TIMEOUT_MS) and the update that records its outcome.
+const CLAIM_TTL_MS = 3 * DELIVERY_TIMEOUT_MS;
+
+const unclaimed = (now: Date): Prisma.WebhookDeliveryWhereInput => ({
+  OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }]
+});
+
+export function signWebhookBody(secret: string, timestamp: string, body: string) {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function matchesWebhook(webhook: Webhook, event: WebhookEvent, sourceId: string) {
+  const events = webhook.events as string[];
+  const sourceIds = webhook.sourceIds as string[] | null;
+  return events.includes(event) && (!sourceIds || sourceIds.includes(sourceId));
+}
+
+// Events are written to a database outbox and delivered from a poll loop, so a slow receiver never
+// blocks the crawler and pending deliveries survive a restart. Instances sharing the database claim
+// each delivery before sending it, so it is sent once.
+export class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor(
+    private prisma: PrismaClient,
+    private registry: SourceRegistry
+  ) {}
+
+  async start() {
+    if (this.timer) return;
+    await this.syncConfigWebhooks();
+    eventBus.on('source_data:new', this.handleData);
+    eventBus.on('crawl:error', this.handleError);
+    eventBus.on('config:reloaded', this.handleReload);
+    this.timer = setInterval(() => void this.processDue(), POLL_INTERVAL_MS);
+    void this.processDue();
+  }
+
+  stop() {
+    eventBus.off('source_data:new', this.handleData);
+    eventBus.off('crawl:error', this.handleError);
+    eventBus.off('config:reloaded', this.handleReload);
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Webhooks declared in YAML are mirrored into the Webhook table so their deliveries can be inspected
+  // like API-registered ones. Removed declarations are disabled rather than deleted to keep their history;
+  // their pending deliveries are cancelled so nothing more is sent to the old URL.
+  async syncConfigWebhooks() {
+    const desired = this.registry.list().flatMap((config) =>
+      config.webhooks.map((hook, index) => ({
+        id: `config:${config.id}:${index}`,
+        url: hook.url,
+        events: hook.events,
+        sourceIds: [config.id],
+        secretEnv: hook.secretEnv
+      }))
+    );
+
+    for (const hook of desired) {
+      const data = { ...hook, origin: 'config', enabled: true };
+      await this.prisma.webhook.upsert({ where: { id: hook.id }, update: data, create: data });
+    }
+    const removed = { origin: 'config', id: { notIn: desired.map((hook) => hook.id) } };
+    await this.prisma.webhook.updateMany({ where: removed, data: { enabled: false } });
+    await this.prisma.webhookDelivery.updateMany({
+      where: { status: WebhookDeliveryStatus.PENDING, Webhook: { enabled: false } },
+      data: { status: WebhookDeliveryStatus.CANCELLED, lastError: 'Webhook disabled', lockedBy: null, lockedUntil: null }
+    });
+  }
+
+  private handleData = (event: { sourceId: string; data: unknown }) => {
+    void this.enqueue('source_data:new', event.sourceId, event.data);
+  };
+
+  private handleError = (event: { sourceId: string; error: string }) => {
+    void this.enqueue('crawl:error', event.sourceId, { error: event.error });
+  };
+
+  private handleReload = () => {
+    this.syncConfigWebhooks().catch((error) => console.error('[webhooks] failed to sync config webhooks', error));
+  };
+
+  private async enqueue(event: WebhookEvent, sourceId: string, data: unknown) {
+    try {
+      const webhooks = await this.prisma.webhook.findMany({ where: { enabled: true } });
+      const matching = webhooks.filter((webhook) => matchesWebhook(webhook, event, sourceId));
+      if (!matching.length) return;
+
+      const payload = JSON.parse(JSON.stringify({ event, sourceId, occurredAt: new Date(), data }));
+      await this.prisma.webhookDelivery.createMany({
+        data: matching.map((webhook) => ({ webhookId: webhook.id, event, sourceId, payload }))
+      });
+      void this.processDue();
+    } catch (error) {
+      console.error(`[webhooks] failed to enqueue ${event} for ${sourceId}`, error);
+    }
+  }
+
+  private async processDue() {
+    if (this.processing) return;
+    this.processing = true;
+    try {
+      const now = new Date();
+      const due = await this.prisma.webhookDelivery.findMany({
+        where: {
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: { lte: now },
+          Webhook: { enabled: true },
+          ...unclaimed(now)
+        },
+        include: { Webhook: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE
+      });
+      await Promise.allSettled(
+        due.map(async (delivery) => {
+          if (await this.claim(delivery)) await this.deliver(delivery, delivery.Webhook);
+        })
+      );
+    } catch (error) {
+      console.error('[webhooks] failed to process outbox', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // Only one instance gets the row: the update matches nothing once another instance claimed the
+  // delivery or recorded its outcome.
+  private async claim(delivery: WebhookDelivery) {
+    const now = new Date();
+    const { count } = await this.prisma.webhookDelivery.updateMany({
+      where: {
+        id: delivery.id,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: delivery.attempts,
+        nextAttemptAt: { lte: now },
+        ...unclaimed(now)
+      },
+      data: { lockedBy: INSTANCE_ID, lockedUntil: new Date(now.getTime() + CLAIM_TTL_MS) }
+    });
+    return count === 1;
+  }
+
+  private async deliver(delivery: WebhookDelivery, webhook: Webhook) {
+    const secret = webhook.secret ?? (webhook.secretEnv ? process.env[webhook.secretEnv] : undefined);
+    if (!secret) {
+      await this.recordFailure(delivery, `Webhook secret is not available (env ${webhook.secretEnv ?? 'unset'})`);
+      return;
+    }
+
+    const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as Prisma.JsonObject) });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-relay-event': delivery.event,
+          'x-relay-delivery': String(delivery.id),
+          'x-relay-timestamp': timestamp,
+          'x-relay-signature': `sha256=${signWebhookBody(secret, timestamp, body)}`
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        await this.recordFailure(delivery, `HTTP ${response.status} ${response.statusText}`, response.status);
+        return;
+      }
+
+      await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: WebhookDeliveryStatus.DELIVERED,
+          attempts: delivery.attempts + 1,
+          lastStatusCode: response.status,
+          lastError: null,
+          deliveredAt: new Date(),
+          lockedBy: null,
+          lockedUntil: null
+        }
+      });
+    } catch (error) {
+      await this.recordFailure(delivery, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async recordFailure(delivery: WebhookDelivery, message: string, statusCode?: number) {
+    const attempts = delivery.attempts + 1;
+    const dead = attempts >= MAX_ATTEMPTS;
+    const retryMs = Math.min(BASE_RETRY_MS * Math.pow(2, attempts - 1), MAX_RETRY_MS);
+
+    await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: dead ? WebhookDeliveryStatus.DEAD : WebhookDeliveryStatus.PENDING,
+        attempts,
+        nextAttemptAt: new Date(Date.now() + retryMs),
+        lastStatusCode: statusCode ?? null,
+        lastError: message,
+        lockedBy: null,
+        lockedUntil: null
+      }
+    });
+
+    if (dead) {
+      console.warn(`[webhooks] delivery ${delivery.id} dead-lettered after ${attempts} attempts: ${message}`);
+    } else {
+      console.warn(`[webhooks] delivery ${delivery.id} failed (${message}); retrying in ${retryMs}ms`);
+    }
+  }
+}
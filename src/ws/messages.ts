@@ -0,0 +1,46 @@
+import { SourceData } from '@prisma/client';
+
+// Shape of the events crawler and scheduler emit on `source:<id>` channels.
+export interface SourceChannelEvent {
+  sourceId: string;
+  type?: string;
+  payload?: unknown;
+  changes?: unknown;
+  error?: string;
+}
+
+// The per-source channel carries single rows, list batches, diffs, alerts, control changes and errors;
+// `source_data:new` fires once per stored row and would duplicate every update for clients.
+export function toClientMessage(event: SourceChannelEvent) {
+  if (event.type === 'diff') {
+    return { type: 'diff', sourceId: event.sourceId, changes: event.changes };
+  }
+  if (event.type === 'alert') {
+    return { type: 'alert', sourceId: event.sourceId, payload: event.payload };
+  }
+  return { type: 'update', sourceId: event.sourceId, payload: event };
+}
+
+const hasRowId = (row: unknown): row is SourceData =>
+  !!row && typeof row === 'object' && typeof (row as SourceData).id === 'number';
+
+// SourceData ids are global and increasing, so the highest row id in an event orders it against
+// replayed rows (and is a valid SSE Last-Event-ID for every source on a stream).
+export function lastRowId(payload: unknown): number | undefined {
+  const ids = (Array.isArray(payload) ? payload : [payload]).filter(hasRowId).map((row) => row.id);
+  return ids.length ? Math.max(...ids) : undefined;
+}
+
+export function eventRowId(event: SourceChannelEvent) {
+  return event.type === 'diff' || event.type === 'alert' ? undefined : lastRowId(event.payload);
+}
+
+// Drops the rows a replay up to `cursor` already sent: null when nothing is left, a trimmed batch when
+// part of it was replayed. Events without rows pass through.
+export function rowsAfter(event: SourceChannelEvent, cursor: number): SourceChannelEvent | null {
+  const id = eventRowId(event);
+  if (id === undefined) return event;
+  if (id <= cursor) return null;
+  if (!Array.isArray(event.payload)) return event;
+  return { ...event, payload: event.payload.filter((row) => !hasRowId(row) || row.id > cursor) };
+}
@@ -0,0 +1,261 @@
+import { SocketStream } from '@fastify/websocket';
+import { FastifyInstance } from 'fastify';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { formatZodError } from '../config';
+import { SourceRegistry } from '../config/registry';
+import { retainedSince, retentionCutoff } from '../retention/retention';
+import { eventBus } from '../shared/eventBus';
+import { SourceChannelEvent, rowsAfter, toClientMessage } from './messages';
+import { trackSubscriber } from './subscribers';
+import { canAccessSource, requireConnectionSlot, requireScope } from '../api/auth';
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const MAX_QUEUED_MESSAGES = 1_000;
+const SOCKET_HIGH_WATER_BYTES = 1024 * 1024;
+const DRAIN_RETRY_MS = 50;
+const REPLAY_BATCH_SIZE = 500;
+
+const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('subscribe'),
+    sources: z.array(z.string().min(1)).min(1),
+    sinceId: z.number().int().nonnegative().optional(),
+    sinceTimestamp: z.string().datetime().optional()
+  }),
+  z.object({ type: z.literal('unsubscribe'), sources: z.array(z.string().min(1)).min(1) }),
+  z.object({ type: z.literal('ping') })
+]);
+
+type SubscribeMessage = Extract<z.infer<typeof clientMessageSchema>, { type: 'subscribe' }>;
+
+function globToRegExp(pattern: string) {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+// Buffers outgoing messages while the socket's own buffer is above the high-water mark. A client that
+// falls more than MAX_QUEUED_MESSAGES behind is disconnected and expected to reconnect with a replay cursor.
+class ClientSender {
+  private queue: string[] = [];
+  private drainTimer: NodeJS.Timeout | null = null;
+  private waiters: Array<() => void> = [];
+
+  constructor(private socket: SocketStream['socket']) {}
+
+  send(message: unknown) {
+    if (this.socket.readyState !== this.socket.OPEN) return;
+    if (this.queue.length >= MAX_QUEUED_MESSAGES) {
+      this.close();
+      this.socket.close(1013, 'Send buffer overflow; reconnect with a replay cursor');
+      return;
+    }
+    this.queue.push(JSON.stringify(message));
+    this.flush();
+  }
+
+  drained() {
+    if (!this.queue.length) return Promise.resolve();
+    return new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  close() {
+    if (this.drainTimer) {
+      clearTimeout(this.drainTimer);
+      this.drainTimer = null;
+    }
+    this.queue = [];
+    this.waiters.splice(0).forEach((resolve) => resolve());
+  }
+
+  private flush() {
+    while (this.queue.length && this.socket.bufferedAmount < SOCKET_HIGH_WATER_BYTES) {
+      this.socket.send(this.queue.shift()!);
+    }
+    if (!this.queue.length) {
+      this.waiters.splice(0).forEach((resolve) => resolve());
+      return;
+    }
+    if (!this.drainTimer) {
+      this.drainTimer = setTimeout(() => {
+        this.drainTimer = null;
+        this.flush();
+      }, DRAIN_RETRY_MS);
+    }
+  }
+}
+
+export function registerMultiplexRoute(fastify: FastifyInstance, prisma: PrismaClient, registry: SourceRegistry) {
+  const preHandler = [requireScope('read-data'), requireConnectionSlot];
+  fastify.get('/ws', { websocket: true, preHandler }, (connection, request) => {
+    const socket = connection.socket;
+    const sender = new ClientSender(socket);
+    const patterns = new Set<string>();
+    const subscribed = new Map<string, (event: SourceChannelEvent) => void>();
+    // Live events of sources whose replay is still paging wait here, so rows reach the client in id order.
+    const pendingLive = new Map<string, SourceChannelEvent[]>();
+    let alive = true;
+
+    const resolveSources = () => {
+      const matchers = [...patterns].map(globToRegExp);
+      return registry
+        .list()
+        .filter((config) => config.enabled && canAccessSource(request, config.id))
+        .filter((config) => matchers.some((matcher) => matcher.test(config.id)))
+        .map((config) => config.id);
+    };
+
+    // Patterns are re-resolved on every change so reloaded or newly added sources are picked up.
+    const syncSubscriptions = () => {
+      const wanted = new Set(resolveSources());
+      for (const [sourceId, handler] of subscribed) {
+        if (!wanted.has(sourceId)) {
+          eventBus.off(`source:${sourceId}`, handler);
+          trackSubscriber(sourceId, -1);
+          subscribed.delete(sourceId);
+        }
+      }
+      for (const sourceId of wanted) {
+        if (subscribed.has(sourceId)) continue;
+        const handler = (event: SourceChannelEvent) => {
+          const queued = pendingLive.get(sourceId);
+          if (queued) {
+            queued.push(event);
+          } else {
+            sender.send(toClientMessage(event));
+          }
+        };
+        eventBus.on(`source:${sourceId}`, handler);
+        trackSubscriber(sourceId, 1);
+        subscribed.set(sourceId, handler);
+      }
+      return [...wanted];
+    };
+
+    const replay = async (sourceIds: string[], message: SubscribeMessage) => {
+      let cursor = message.sinceId ?? 0;
+      const sinceTimestamp = message.sinceTimestamp ? new Date(message.sinceTimestamp) : null;
+      const where: Prisma.SourceDataWhereInput = {
+        OR: sourceIds.map((sourceId) => {
+          const cutoff = retentionCutoff(registry.get(sourceId));
+          if (sinceTimestamp && sinceTimestamp > cutoff) return { sourceId, scrapedAt: { gte: sinceTimestamp } };
+          return { sourceId, ...retainedSince(cutoff) };
+        })
+      };
+
+      // A source already held back by an earlier replay is flushed when that replay completes.
+      const held = sourceIds.filter((sourceId) => !pendingLive.has(sourceId));
+      held.forEach((sourceId) => pendingLive.set(sourceId, []));
+
+      let replayed = 0;
+      try {
+        while (socket.readyState === socket.OPEN) {
+          const rows = await prisma.sourceData.findMany({
+            where: { AND: [where, { id: { gt: cursor } }] },
+            orderBy: { id: 'asc' },
+            take: REPLAY_BATCH_SIZE
+          });
+          if (!rows.length) break;
+          for (const row of rows) {
+            sender.send({ type: 'replay', sourceId: row.sourceId, payload: row });
+          }
+          cursor = rows[rows.length - 1].id;
+          replayed += rows.length;
+          await sender.drained();
+        }
+        sender.send({ type: 'replay_complete', sources: sourceIds, count: replayed, cursor });
+      } finally {
+        // Rows stored while the replay ran were either replayed already or come after the cursor.
+        for (const sourceId of held) {
+          const queued = pendingLive.get(sourceId) ?? [];
+          pendingLive.delete(sourceId);
+          for (const event of queued) {
+            const remaining = rowsAfter(event, cursor);
+            if (remaining) sender.send(toClientMessage(remaining));
+          }
+        }
+      }
+    };
+
+    const handleMessage = async (raw: string) => {
+      let parsed: z.SafeParseReturnType<unknown, z.infer<typeof clientMessageSchema>>;
+      try {
+        parsed = clientMessageSchema.safeParse(JSON.parse(raw));
+      } catch (error) {
+        sender.send({ type: 'error', message: 'Messages must be JSON' });
+        return;
+      }
+      if (!parsed.success) {
+        sender.send({ type: 'error', message: formatZodError(parsed.error) });
+        return;
+      }
+
+      const message = parsed.data;
+      switch (message.type) {
+        case 'ping':
+          sender.send({ type: 'pong', at: new Date() });
+          return;
+        case 'unsubscribe':
+          message.sources.forEach((pattern) => patterns.delete(pattern));
+          sender.send({ type: 'unsubscribed', patterns: message.sources, sources: syncSubscriptions() });
+          return;
+        case 'subscribe': {
+          // Globs silently skip sources outside the key's allow-list; naming one explicitly is an error.
+          const forbidden = message.sources.filter(
+            (pattern) => !/[*?]/.test(pattern) && !canAccessSource(request, pattern)
+          );
+          if (forbidden.length) {
+            sender.send({ type: 'error', message: `API key may not access sources: ${forbidden.join(', ')}` });
+          }
+          message.sources.forEach((pattern) => patterns.add(pattern));
+          const sources = syncSubscriptions();
+          const matched = resolveSources().filter((sourceId) =>
+            message.sources.some((pattern) => globToRegExp(pattern).test(sourceId))
+          );
+          sender.send({ type: 'subscribed', patterns: message.sources, sources });
+          if (message.sinceId !== undefined || message.sinceTimestamp) {
+            await replay(matched, message);
+          }
+          return;
+        }
+      }
+    };
+
+    const heartbeat = setInterval(() => {
+      if (!alive) {
+        socket.terminate();
+        return;
+      }
+      alive = false;
+      socket.ping();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const reloadHandler = () => {
+      syncSubscriptions();
+    };
+
+    socket.on('pong', () => {
+      alive = true;
+    });
+    socket.on('message', (data: Buffer) => {
+      alive = true;
+      handleMessage(data.toString()).catch((error) => {
+        fastify.log.error({ err: error }, 'multiplexed websocket message failed');
+        sender.send({ type: 'error', message: 'Internal error' });
+      });
+    });
+    socket.on('close', () => {
+      clearInterval(heartbeat);
+      sender.close();
+      eventBus.off('config:reloaded', reloadHandler);
+      for (const [sourceId, handler] of subscribed) {
+        eventBus.off(`source:${sourceId}`, handler);
+        trackSubscriber(sourceId, -1);
+      }
+      subscribed.clear();
+    });
+
+    eventBus.on('config:reloaded', reloadHandler);
+    sender.send({ type: 'connected' });
+  });
+}
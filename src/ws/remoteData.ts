@@ -0,0 +1,98 @@
+import { PrismaClient, SourceData } from '@prisma/client';
+import { SourceRegistry } from '../config/registry';
+import { DATA_POLL_INTERVAL_MS } from '../shared/constants';
+import { eventBus } from '../shared/eventBus';
+
+const POLL_BATCH_SIZE = 1000;
+
+// With several instances, only the one holding a source's crawl lease stores its rows. The others
+// find those rows by polling SourceData and publish them on the source channel, so WebSocket and
+// SSE clients get `update` messages whichever instance they are connected to. Rows this instance
+// stored itself (announced through `source_data:new`) or is storing right now are skipped, and
+// nothing is re-emitted as `source_data:new`, so webhooks are not enqueued twice.
+export class RemoteDataRelay {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastId = 0;
+  private localRowIds = new Set<number>();
+  private localCrawls = new Set<string>();
+
+  constructor(
+    private prisma: PrismaClient,
+    private registry: SourceRegistry
+  ) {}
+
+  async start() {
+    if (this.timer || DATA_POLL_INTERVAL_MS <= 0) return;
+    const latest = await this.prisma.sourceData.aggregate({ _max: { id: true } });
+    this.lastId = latest._max.id ?? 0;
+    eventBus.on('crawl:start', this.handleCrawlStart);
+    eventBus.on('crawl:finish', this.handleCrawlEnd);
+    eventBus.on('crawl:error', this.handleCrawlEnd);
+    eventBus.on('source_data:new', this.handleLocalRow);
+    this.timer = setInterval(() => void this.poll(), DATA_POLL_INTERVAL_MS);
+  }
+
+  stop() {
+    eventBus.off('crawl:start', this.handleCrawlStart);
+    eventBus.off('crawl:finish', this.handleCrawlEnd);
+    eventBus.off('crawl:error', this.handleCrawlEnd);
+    eventBus.off('source_data:new', this.handleLocalRow);
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private handleCrawlStart = (event: { sourceId: string }) => {
+    this.localCrawls.add(event.sourceId);
+  };
+
+  private handleCrawlEnd = (event: { sourceId: string }) => {
+    this.localCrawls.delete(event.sourceId);
+  };
+
+  private handleLocalRow = (event: { data: SourceData }) => {
+    this.localRowIds.add(event.data.id);
+  };
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const rows = await this.prisma.sourceData.findMany({
+        where: { id: { gt: this.lastId } },
+        orderBy: { id: 'asc' },
+        take: POLL_BATCH_SIZE
+      });
+      if (!rows.length) return;
+      this.lastId = rows[rows.length - 1].id;
+      this.publish(rows.filter((row) => !this.localRowIds.has(row.id) && !this.localCrawls.has(row.sourceId)));
+      // Local rows are announced after they are stored, so an id may be recorded after the poll that skipped it.
+      for (const id of this.localRowIds) {
+        if (id <= this.lastId) this.localRowIds.delete(id);
+      }
+    } catch (error) {
+      console.error('[relay] failed to poll rows stored by other instances', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Same shapes the crawler emits: one `batch` per list batch in `rows` mode, one `data` event otherwise.
+  private publish(rows: SourceData[]) {
+    const batches = new Map<string, SourceData[]>();
+    for (const row of rows) {
+      if (!this.registry.get(row.sourceId)) continue;
+      if (row.batchId) {
+        batches.set(row.batchId, [...(batches.get(row.batchId) ?? []), row]);
+      } else {
+        eventBus.emit(`source:${row.sourceId}`, { type: 'data', sourceId: row.sourceId, payload: row });
+      }
+    }
+    for (const [batchId, items] of batches) {
+      const { sourceId } = items[0];
+      eventBus.emit(`source:${sourceId}`, { type: 'batch', sourceId, batchId, payload: items });
+    }
+  }
+}
@@ -0,0 +1,9 @@
+const subscriberCounts = new Map<string, number>();
+
+export function trackSubscriber(sourceId: string, delta: 1 | -1) {
+  subscriberCounts.set(sourceId, Math.max((subscriberCounts.get(sourceId) ?? 0) + delta, 0));
+}
+
+export function getWsSubscriberCounts() {
+  return new Map(subscriberCounts);
+}
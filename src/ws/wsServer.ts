@@ -1,20 +1,28 @@
 import websocketPlugin from '@fastify/websocket';
 import { FastifyInstance } from 'fastify';
 import { PrismaClient } from '@prisma/client';
-import { ResolvedSourceConfig } from '../config';
+import { ConfigReloadResult } from '../config/reloader';
+import { SourceRegistry } from '../config/registry';
 import { eventBus } from '../shared/eventBus';
-import { RETENTION_WINDOW_MS } from '../shared/constants';
+import { retentionCutoff } from '../retention/retention';
+import { findLatestData } from '../db/sourceData';
+import { SourceChannelEvent, toClientMessage } from './messages';
+import { registerMultiplexRoute } from './multiplex';
+import { trackSubscriber } from './subscribers';
+import { requireConnectionSlot, requireScope } from '../api/auth';
 
 export async function registerWsServer(
   fastify: FastifyInstance,
   prisma: PrismaClient,
-  configs: ResolvedSourceConfig[]
+  registry: SourceRegistry
 ) {
   await fastify.register(websocketPlugin);
+  registerMultiplexRoute(fastify, prisma, registry);
 
-  fastify.get('/ws/sources/:id', { websocket: true }, async (connection, request) => {
+  const preHandler = [requireScope('read-data', { sourceParam: 'id' }), requireConnectionSlot];
+  fastify.get('/ws/sources/:id', { websocket: true, preHandler }, async (connection, request) => {
     const { id } = request.params as { id: string };
-    const sourceConfig = configs.find((entry) => entry.id === id);
+    const sourceConfig = registry.get(id);
     const source = await prisma.source.findUnique({ where: { id } });
 
     if (!sourceConfig || !source || !source.enabled) {
@@ -29,26 +37,33 @@ export async function registerWsServer(
       connection.socket.send(JSON.stringify(payload));
     };
 
-    const handler = (payload: { sourceId: string; data?: unknown; error?: string; type?: string }) => {
-      if (payload.sourceId === id) {
-        sendMessage({ type: 'update', sourceId: id, payload });
+    const handler = (event: SourceChannelEvent) => {
+      if (event.sourceId === id) {
+        sendMessage(toClientMessage(event));
+      }
+    };
+
+    const reloadHandler = (result: ConfigReloadResult) => {
+      const current = registry.get(id);
+      if (result.removed.includes(id) || !current?.enabled) {
+        sendMessage({ type: 'error', sourceId: id, message: 'Source removed or disabled' });
+        connection.socket.close(1008, 'Source removed');
       }
     };
 
-    eventBus.on('source_data:new', handler);
     eventBus.on(channel, handler);
+    eventBus.on('config:reloaded', reloadHandler);
+    trackSubscriber(id, 1);
 
     connection.socket.on('close', () => {
-      eventBus.off('source_data:new', handler);
+      trackSubscriber(id, -1);
       eventBus.off(channel, handler);
+      eventBus.off('config:reloaded', reloadHandler);
     });
 
     sendMessage({ type: 'connected', sourceId: id });
 
-    const latest = await prisma.sourceData.findFirst({
-      where: { sourceId: id, scrapedAt: { gte: new Date(Date.now() - RETENTION_WINDOW_MS) } },
-      orderBy: { scrapedAt: 'desc' }
-    });
+    const latest = await findLatestData(prisma, id, retentionCutoff(sourceConfig));
 
     if (latest) {
       sendMessage({ type: 'latest', sourceId: id, payload: latest });